@@ -5,8 +5,9 @@ import chalk from 'chalk';
 import path from 'path';
 import fs from 'fs';
 import { GzipStaticServer } from './server';
-import { loadConfig, mergeConfig, validateConfig, resolveConfig } from './config';
+import { defaultConfig, loadConfig, mergeConfig, normalizeCors, validateConfig, resolveConfig } from './config';
 import { ServerConfig } from './types';
+import { hashPassword } from './utils/password';
 import open from 'open';
 
 const program = new Command();
@@ -26,11 +27,44 @@ program
   .option('--no-gzip', 'Disable gzip compression')
   .option('--no-cache', 'Disable caching')
   .option('--watch', 'Enable file watching and hot reload')
+  .option('--cache-rewarm', 'Recompress changed files in the background when watching')
+  .option('--no-cache-headers', 'Send no Cache-Control, ETag or Last-Modified headers')
   .option('--open', 'Open browser automatically')
   .option('--no-cors', 'Disable CORS')
+  .option('--cors-origin <origin>', 'Allowed CORS origin, exact or /regex/ (repeatable)', (value: string, previous: string[]) => previous.concat(value), [] as string[])
+  .option('--cors-credentials', 'Allow credentialed CORS requests')
   .option('--log-level <level>', 'Log level (debug, info, warn, error)', 'info')
   .option('--gzip-level <number>', 'Gzip compression level (1-9)', '6')
   .option('--gzip-threshold <bytes>', 'Minimum file size to compress', '1024')
+  .option('--encodings <list>', 'Preferred content encodings, comma separated (br, zstd, gzip)')
+  .option('--brotli-quality <number>', 'Brotli compression quality (0-11)')
+  .option('--precompressed', 'Serve precompressed .br/.zst/.gz sidecar files when available')
+  .option('--stream-threshold <bytes>', 'Stream files larger than this instead of caching them in memory')
+  .option('--directory-listing', 'List directory contents when no index file exists')
+  .option('--spa', 'Serve the index document for unknown routes (history API fallback)')
+  .option('--no-live-reload', 'Disable browser live reload when watching')
+  .option('--etag <strategy>', 'ETag strategy (mtime, content)')
+  .option('--clean-urls', 'Serve /about from about.html and redirect .html URLs to clean ones')
+  .option('--trailing-slash <mode>', 'Trailing slash normalization (always, never, ignore)')
+  .option('--header <name:value>', 'Add a response header to every response (repeatable)', (value: string, previous: string[]) => previous.concat(value), [] as string[])
+  .option('--cross-origin-isolation', 'Send COOP/COEP headers so pages can use SharedArrayBuffer')
+  .option('--https', 'Serve over HTTPS (generates a self-signed certificate unless --cert/--key are given)')
+  .option('--cert <path>', 'TLS certificate file (PEM)')
+  .option('--key <path>', 'TLS private key file (PEM)')
+  .option('--http2', 'Serve over HTTP/2 with HTTP/1.1 fallback (implies --https)')
+  .option('--auth <scope>', 'Require authentication for: none, api, all')
+  .option('--auth-user <user:hash>', 'HTTP Basic user with a bcrypt/scrypt password hash (repeatable)', (value: string, previous: string[]) => previous.concat(value), [] as string[])
+  .option('--auth-token <token>', 'Accepted bearer token (repeatable)', (value: string, previous: string[]) => previous.concat(value), [] as string[])
+  .option('--tus', 'Enable the resumable (tus) upload endpoint')
+  .option('--max-file-size <bytes>', 'Maximum size of a single uploaded file')
+  .option('--upload-quota <bytes>', 'Maximum total size of the upload directory')
+  .option('--allow-ext <list>', 'Allowed upload file extensions, comma separated (e.g. .png,.jpg)')
+  .option('--allow-mime <list>', 'Allowed upload MIME types detected from file content, comma separated (e.g. image/*,application/pdf)')
+  .option('--versioning', 'Keep previous versions when a file is uploaded again under the same name')
+  .option('--extract', 'Allow uploaded archives to be extracted into the upload directory')
+  .option('--allow-root-extract', 'Allow uploaded archives to be extracted into the root directory (implies --extract)')
+  .option('--api-prefix <path>', 'Path prefix for the built-in upload API')
+  .option('--proxy <context=target>', 'Proxy a path prefix to an upstream, e.g. /backend=http://localhost:8080 (repeatable)', (value: string, previous: string[]) => previous.concat(value), [] as string[])
   .action(async (options) => {
     try {
       // 加载配置文件
@@ -47,10 +81,165 @@ program
         cache: options.cache,
         watch: options.watch,
         open: options.open,
-        cors: options.cors,
+        cors: {
+          ...defaultConfig.cors,
+          ...normalizeCors(fileConfig.cors),
+          enabled: options.cors,
+          ...(options.corsOrigin.length > 0 ? { origins: options.corsOrigin } : {}),
+          ...(options.corsCredentials ? { credentials: true } : {})
+        },
         logLevel: options.logLevel as 'debug' | 'info' | 'warn' | 'error'
       };
 
+      if (options.encodings) {
+        cliConfig.encodings = options.encodings.split(',').map((e: string) => e.trim()).filter(Boolean);
+      }
+
+      if (options.brotliQuality !== undefined) {
+        cliConfig.brotliQuality = parseInt(options.brotliQuality);
+      }
+
+      if (options.precompressed) {
+        cliConfig.precompressed = true;
+      }
+
+      if (options.streamThreshold !== undefined) {
+        cliConfig.streamThreshold = parseInt(options.streamThreshold);
+      }
+
+      if (options.directoryListing) {
+        cliConfig.directoryListing = true;
+      }
+
+      if (options.etag) {
+        cliConfig.etag = options.etag;
+      }
+
+      if (options.cacheHeaders === false) {
+        cliConfig.cacheHeaders = false;
+      }
+
+      if (options.cacheRewarm) {
+        cliConfig.cacheRewarm = true;
+      }
+
+      if (options.liveReload === false) {
+        cliConfig.liveReload = false;
+      }
+
+      if (options.cleanUrls) {
+        cliConfig.cleanUrls = true;
+      }
+
+      if (options.trailingSlash) {
+        cliConfig.trailingSlash = options.trailingSlash;
+      }
+
+      if (options.header.length > 0 || options.crossOriginIsolation) {
+        const global: Record<string, string> = {};
+        for (const value of options.header) {
+          const separator = value.indexOf(':');
+          if (separator === -1) {
+            throw new Error(`Invalid header: ${value} (expected name:value)`);
+          }
+          global[value.slice(0, separator).trim()] = value.slice(separator + 1).trim();
+        }
+        cliConfig.headers = {
+          ...defaultConfig.headers,
+          ...fileConfig.headers,
+          presets: Array.from(new Set([
+            ...(fileConfig.headers?.presets || []),
+            ...(options.crossOriginIsolation ? ['cross-origin-isolation' as const] : [])
+          ])),
+          global: { ...fileConfig.headers?.global, ...global }
+        };
+      }
+
+      if (options.https || options.cert || options.key) {
+        cliConfig.https = {
+          ...defaultConfig.https,
+          ...fileConfig.https,
+          enabled: true,
+          ...(options.cert ? { cert: options.cert } : {}),
+          ...(options.key ? { key: options.key } : {})
+        };
+      }
+
+      if (options.http2) {
+        cliConfig.http2 = true;
+      }
+
+      if (options.auth || options.authUser.length > 0 || options.authToken.length > 0) {
+        const users = options.authUser.map((value: string) => {
+          const separator = value.indexOf(':');
+          if (separator === -1) {
+            throw new Error(`Invalid auth user: ${value} (expected user:hash)`);
+          }
+          return { username: value.slice(0, separator), password: value.slice(separator + 1) };
+        });
+        cliConfig.auth = {
+          ...defaultConfig.auth,
+          ...fileConfig.auth,
+          // 只提供了凭据时默认保护 API
+          protect: options.auth || fileConfig.auth?.protect || 'api',
+          users: [...(fileConfig.auth?.users || []), ...users],
+          tokens: [...(fileConfig.auth?.tokens || []), ...options.authToken]
+        };
+      }
+
+      if (options.tus) {
+        cliConfig.tus = { ...defaultConfig.tus, ...fileConfig.tus, enabled: true };
+      }
+
+      if (options.maxFileSize !== undefined || options.uploadQuota !== undefined || options.allowExt || options.allowMime) {
+        const list = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+        cliConfig.upload = {
+          ...defaultConfig.upload,
+          ...fileConfig.upload,
+          ...(options.maxFileSize !== undefined ? { maxFileSize: parseInt(options.maxFileSize) } : {}),
+          ...(options.uploadQuota !== undefined ? { quota: parseInt(options.uploadQuota) } : {}),
+          ...(options.allowExt ? { allowedExtensions: list(options.allowExt) } : {}),
+          ...(options.allowMime ? { allowedMimeTypes: list(options.allowMime) } : {})
+        };
+      }
+
+      if (options.versioning) {
+        cliConfig.versioning = { ...defaultConfig.versioning, ...fileConfig.versioning, enabled: true };
+      }
+
+      if (options.extract || options.allowRootExtract) {
+        cliConfig.extraction = {
+          ...defaultConfig.extraction,
+          ...fileConfig.extraction,
+          enabled: true,
+          ...(options.allowRootExtract ? { allowRootDir: true } : {})
+        };
+      }
+
+      if (options.apiPrefix) {
+        cliConfig.apiPrefix = options.apiPrefix.replace(/\/+$/, '');
+      }
+
+      if (options.proxy.length > 0) {
+        cliConfig.proxy = options.proxy.map((value: string) => {
+          const separator = value.indexOf('=');
+          if (separator === -1) {
+            throw new Error(`Invalid proxy rule: ${value} (expected context=target)`);
+          }
+          return {
+            context: value.slice(0, separator),
+            target: value.slice(separator + 1),
+            changeOrigin: true,
+            ws: true
+          };
+        });
+      }
+
+      // 保留配置文件中的 globs 等设置
+      if (options.spa) {
+        cliConfig.spaFallback = { ...defaultConfig.spaFallback, ...fileConfig.spaFallback, enabled: true };
+      }
+
       // 合并配置
       const config = mergeConfig(fileConfig, cliConfig);
 
@@ -78,7 +267,7 @@ program
 
       // 自动打开浏览器
       if (resolvedConfig.open) {
-        const url = `http://${resolvedConfig.host === '0.0.0.0' ? 'localhost' : resolvedConfig.host}:${resolvedConfig.port}`;
+        const url = `${server.getProtocol()}://${resolvedConfig.host === '0.0.0.0' ? 'localhost' : resolvedConfig.host}:${resolvedConfig.port}`;
         setTimeout(() => {
           open(url).catch(() => {
             console.log(chalk.yellow(`Could not open browser. Please visit ${url} manually.`));
@@ -90,6 +279,9 @@ program
       if (resolvedConfig.watch) {
         console.log(chalk.cyan('\n📝 Development mode:'));
         console.log(chalk.gray('  • Watching for file changes...'));
+        if (resolvedConfig.liveReload) {
+          console.log(chalk.gray('  • Browsers reload automatically (CSS is hot-swapped)'));
+        }
         console.log(chalk.gray('  • Press Ctrl+C to stop'));
       }
 
@@ -113,11 +305,108 @@ program
       gzipThreshold: 1024,
       cache: true,
       cacheMaxAge: 3600,
+      cacheRewarm: false,
+      cacheHeaders: true,
+      cacheControl: [
+        { regex: '\\.[0-9a-f]{8,}\\.(js|css)$', value: 'public, max-age=31536000, immutable' },
+        { glob: '*.html', value: 'no-cache' }
+      ],
       watch: false,
       open: false,
       logLevel: 'info',
-      cors: false,
-      indexPath: 'index.html'
+      cors: {
+        enabled: false,
+        origins: ['http://localhost:5173', '/^https?:\\/\\/([a-z0-9-]+\\.)*example\\.test(:\\d+)?$/'],
+        credentials: true,
+        methods: ['GET', 'HEAD', 'PUT', 'PATCH', 'POST', 'DELETE', 'OPTIONS'],
+        allowedHeaders: [],
+        exposedHeaders: [
+          'Content-Length', 'Content-Range', 'Content-Encoding', 'Accept-Ranges', 'ETag',
+          'Location', 'Upload-Offset', 'Upload-Length', 'Upload-Metadata', 'Upload-Expires',
+          'Tus-Resumable', 'Tus-Version', 'Tus-Extension', 'Tus-Max-Size'
+        ],
+        maxAge: 600
+      },
+      indexPath: 'index.html',
+      encodings: ['br', 'zstd', 'gzip'],
+      brotliQuality: 5,
+      zstdLevel: 3,
+      precompressed: false,
+      streamThreshold: 10485760,
+      directoryListing: false,
+      spaFallback: {
+        enabled: false,
+        globs: []
+      },
+      liveReload: true,
+      etag: 'mtime',
+      headers: {
+        presets: [],
+        global: {
+          'X-Frame-Options': 'SAMEORIGIN',
+          'X-XSS-Protection': null,
+          'Permissions-Policy': 'camera=(), microphone=()'
+        },
+        rules: [
+          { glob: '/embed/**', headers: { 'X-Frame-Options': null, 'Content-Security-Policy': "frame-ancestors *" } }
+        ]
+      },
+      https: {
+        enabled: false
+      },
+      http2: false,
+      auth: {
+        protect: 'none',
+        realm: 'Gzip Static Server',
+        users: [],
+        tokens: []
+      },
+      tus: {
+        enabled: false,
+        maxSize: 10737418240,
+        expiration: 86400000
+      },
+      upload: {
+        maxFileSize: 104857600,
+        maxRequestSize: 524288000,
+        maxFiles: 50,
+        allowedExtensions: [],
+        deniedExtensions: ['.exe', '.sh'],
+        allowedMimeTypes: [],
+        deniedMimeTypes: ['application/x-elf', 'application/vnd.microsoft.portable-executable'],
+        quota: null,
+        deduplicate: false
+      },
+      versioning: {
+        enabled: false,
+        maxVersions: 10,
+        maxAge: null
+      },
+      extraction: {
+        enabled: false,
+        allowRootDir: false,
+        maxEntries: 10000,
+        maxTotalSize: 1073741824,
+        maxRatio: 100
+      },
+      rewrites: [
+        { source: '^/blog/(\\d{4})/(?<slug>[^/]+)$', destination: '/posts/$1-$<slug>.html' },
+        { source: '^/old-docs/(.*)$', destination: '/docs/$1', status: 301 }
+      ],
+      trailingSlash: 'ignore',
+      cleanUrls: false,
+      apiPrefix: '/__upload-api',
+      proxy: [
+        {
+          context: '/api',
+          target: 'http://localhost:8080',
+          pathRewrite: { '^/api': '' },
+          headers: { 'X-Dev-Proxy': 'gzip-static-server' },
+          changeOrigin: true,
+          timeout: 30000,
+          ws: true
+        }
+      ]
     };
 
     try {
@@ -129,6 +418,13 @@ program
     }
   });
 
+program
+  .command('hash-password <password>')
+  .description('Generate a scrypt password hash for auth.users')
+  .action(async (password: string) => {
+    console.log(await hashPassword(password));
+  });
+
 program
   .command('version')
   .description('Show version information')
@@ -0,0 +1,58 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { defaultConfig, mergeConfig, validateConfig } from './index';
+import { ServerConfig } from '../types';
+
+let rootDir: string;
+
+beforeAll(() => {
+  rootDir = mkdtempSync(join(tmpdir(), 'config-test-'));
+});
+
+afterAll(() => {
+  rmSync(rootDir, { recursive: true, force: true });
+});
+
+function config(overrides: Partial<ServerConfig>): ServerConfig {
+  return mergeConfig({ rootDir, uploadDir: join(rootDir, 'uploads'), ...overrides }, {});
+}
+
+describe('validateConfig TLS files', () => {
+  const missingDir = join(tmpdir(), 'gzip-server-missing-certs');
+  const missing = { ...defaultConfig.https, cert: join(missingDir, 'cert.pem'), key: join(missingDir, 'key.pem') };
+
+  it('ignores certificate paths while HTTPS and HTTP/2 are disabled', () => {
+    expect(() => validateConfig(config({ https: { ...missing, enabled: false } }))).not.toThrow();
+  });
+
+  it('requires existing certificate files when HTTPS is enabled', () => {
+    expect(() => validateConfig(config({ https: { ...missing, enabled: true } }))).toThrow(/TLS file does not exist/);
+  });
+
+  it('requires existing certificate files when HTTP/2 is enabled', () => {
+    expect(() => validateConfig(config({ http2: true, https: { ...missing, enabled: false } }))).toThrow(/TLS file does not exist/);
+  });
+
+  it('requires cert and key together when HTTPS is enabled', () => {
+    expect(() => validateConfig(config({ https: { ...defaultConfig.https, enabled: true, cert: missing.cert } }))).toThrow(/Both https.cert and https.key/);
+  });
+});
+
+describe('validateConfig proxy rules', () => {
+  const target = 'http://localhost:9000';
+
+  it('rejects proxy contexts that cover the API prefix', () => {
+    for (const context of ['/api', '/api/', '/', '/api/upload', '/api/**', '/**/upload', '/api/*']) {
+      expect(() => validateConfig(config({ proxy: [{ context, target }] }))).toThrow(/overlaps apiPrefix \/api/);
+    }
+    expect(() => validateConfig(config({ apiPrefix: '/v1/upload-api', proxy: [{ context: '/v1', target }] }))).toThrow(/overlaps apiPrefix/);
+  });
+
+  it('accepts proxy contexts outside the API prefix', () => {
+    for (const context of ['/apiv2', '/backend', '/api-docs/**', '/**/*.json']) {
+      expect(() => validateConfig(config({ proxy: [{ context, target }] }))).not.toThrow();
+    }
+    expect(() => validateConfig(config({ apiPrefix: '/__upload-api', proxy: [{ context: '/api', target }] }))).not.toThrow();
+  });
+});
@@ -1,6 +1,13 @@
 import path from 'path';
 import fs from 'fs';
-import { ServerConfig } from '../types';
+import os from 'os';
+import { CompressionEncoding, CorsConfig, PathPattern, ServerConfig } from '../types';
+import { isGlob, matchGlob } from '../utils/glob';
+import { HEADER_PRESETS } from '../utils/headers';
+import { parseOriginPattern } from '../utils/cors';
+import { isSupportedHash } from '../utils/password';
+
+const compressionEncodings: CompressionEncoding[] = ['br', 'zstd', 'gzip'];
 
 export const defaultConfig: ServerConfig = {
   port: 4000,
@@ -11,11 +18,92 @@ export const defaultConfig: ServerConfig = {
   gzipThreshold: 1024,
   cache: true,
   cacheMaxAge: 3600,
+  cacheRewarm: false,
+  cacheHeaders: true,
+  cacheControl: [],
   watch: false,
   open: false,
   logLevel: 'info',
-  cors: false,
-  indexPath: 'index.html'
+  cors: {
+    enabled: 'api',
+    origins: ['*'],
+    credentials: false,
+    methods: ['GET', 'HEAD', 'PUT', 'PATCH', 'POST', 'DELETE', 'OPTIONS'],
+    allowedHeaders: [],
+    exposedHeaders: [
+      'Content-Length', 'Content-Range', 'Content-Encoding', 'Accept-Ranges', 'ETag',
+      // tus 客户端需要读取的头部
+      'Location', 'Upload-Offset', 'Upload-Length', 'Upload-Metadata', 'Upload-Expires',
+      'Tus-Resumable', 'Tus-Version', 'Tus-Extension', 'Tus-Max-Size'
+    ],
+    maxAge: 600
+  },
+  indexPath: 'index.html',
+  encodings: ['br', 'zstd', 'gzip'],
+  // 用于动态压缩；需要最高压缩率时离线生成 .br 文件并开启 precompressed
+  brotliQuality: 5,
+  zstdLevel: 3,
+  precompressed: false,
+  streamThreshold: 10 * 1024 * 1024,
+  directoryListing: false,
+  spaFallback: {
+    enabled: false,
+    globs: []
+  },
+  liveReload: true,
+  etag: 'mtime',
+  apiPrefix: '/api',
+  proxy: [],
+  rewrites: [],
+  trailingSlash: 'ignore',
+  cleanUrls: false,
+  headers: {
+    presets: [],
+    global: {},
+    rules: []
+  },
+  https: {
+    enabled: false,
+    certDir: path.join(os.homedir(), '.gzip-server', 'certs')
+  },
+  http2: false,
+  auth: {
+    protect: 'none',
+    realm: 'Gzip Static Server',
+    users: [],
+    tokens: []
+  },
+  tus: {
+    // 服务器默认绑定 0.0.0.0，断点续传需要显式开启
+    enabled: false,
+    maxSize: 10 * 1024 * 1024 * 1024,
+    expiration: 24 * 60 * 60 * 1000
+  },
+  upload: {
+    maxFileSize: 100 * 1024 * 1024,
+    maxRequestSize: 500 * 1024 * 1024,
+    maxFiles: 50,
+    allowedExtensions: [],
+    deniedExtensions: [],
+    allowedMimeTypes: [],
+    deniedMimeTypes: [],
+    quota: null,
+    // 去重时不会按请求的文件名和目录保存，需要显式开启
+    deduplicate: false
+  },
+  versioning: {
+    enabled: false,
+    maxVersions: 10,
+    maxAge: null
+  },
+  extraction: {
+    // 解压会在上传目录中写入任意多个文件，需要显式开启
+    enabled: false,
+    allowRootDir: false,
+    maxEntries: 10000,
+    maxTotalSize: 1024 * 1024 * 1024,
+    maxRatio: 100
+  }
 };
 
 export function loadConfig(configPath?: string): Partial<ServerConfig> {
@@ -52,14 +140,96 @@ export function loadConfig(configPath?: string): Partial<ServerConfig> {
   return {};
 }
 
+// 兼容旧配置中的 "cors": true / false
+export function normalizeCors(value: Partial<CorsConfig> | boolean | undefined): Partial<CorsConfig> {
+  if (typeof value === 'boolean') {
+    return { enabled: value };
+  }
+  return value || {};
+}
+
 export function mergeConfig(userConfig: Partial<ServerConfig>, cliConfig: Partial<ServerConfig>): ServerConfig {
   return {
     ...defaultConfig,
     ...userConfig,
-    ...cliConfig
+    ...cliConfig,
+    // 嵌套配置需要逐字段合并，避免缺失的字段覆盖默认值
+    spaFallback: {
+      ...defaultConfig.spaFallback,
+      ...userConfig.spaFallback,
+      ...cliConfig.spaFallback
+    },
+    cors: {
+      ...defaultConfig.cors,
+      ...normalizeCors(userConfig.cors),
+      ...normalizeCors(cliConfig.cors)
+    },
+    headers: {
+      ...defaultConfig.headers,
+      ...userConfig.headers,
+      ...cliConfig.headers
+    },
+    https: {
+      ...defaultConfig.https,
+      ...userConfig.https,
+      ...cliConfig.https
+    },
+    auth: {
+      ...defaultConfig.auth,
+      ...userConfig.auth,
+      ...cliConfig.auth
+    },
+    tus: {
+      ...defaultConfig.tus,
+      ...userConfig.tus,
+      ...cliConfig.tus
+    },
+    upload: {
+      ...defaultConfig.upload,
+      ...userConfig.upload,
+      ...cliConfig.upload
+    },
+    versioning: {
+      ...defaultConfig.versioning,
+      ...userConfig.versioning,
+      ...cliConfig.versioning
+    },
+    extraction: {
+      ...defaultConfig.extraction,
+      ...userConfig.extraction,
+      ...cliConfig.extraction
+    }
   };
 }
 
+// 校验 glob/regex 二选一的路径模式
+// 内置 API 的代表路由，用于判断 glob 形式的代理规则是否覆盖了 apiPrefix
+const apiRoutes = ['/upload', '/files', '/files/name', '/tus', '/tus/id', '/versions', '/progress/id', '/archive', '/feed'];
+
+// 代理规则先于内置 API 匹配，与 apiPrefix 重叠时上传和文件 API 会被静默转发给上游；
+// 前缀规则的判断方式与 ProxyHandler.match 一致
+function proxyShadowsApi(context: string, apiPrefix: string): boolean {
+  if (isGlob(context)) {
+    return [apiPrefix, ...apiRoutes.map(route => apiPrefix + route)].some(path => matchGlob(path, context));
+  }
+  const prefix = context.replace(/\/+$/, '');
+  return prefix === '' || prefix === apiPrefix ||
+    apiPrefix.startsWith(prefix + '/') || prefix.startsWith(apiPrefix + '/');
+}
+
+function validatePathPattern(rule: PathPattern, name: string): void {
+  if ((rule.glob === undefined) === (rule.regex === undefined)) {
+    throw new Error(`Invalid ${name} rule: ${JSON.stringify(rule)} (expected exactly one of glob/regex)`);
+  }
+  if (rule.regex !== undefined) {
+    try {
+      new RegExp(rule.regex);
+    } catch {
+      throw new Error(`Invalid ${name} regex: ${rule.regex}`);
+    }
+  }
+}
+
 export function validateConfig(config: ServerConfig): void {
   if (config.port < 1 || config.port > 65535) {
     throw new Error('Port must be between 1 and 65535');
@@ -76,6 +246,195 @@ export function validateConfig(config: ServerConfig): void {
   if (config.gzipThreshold < 0) {
     throw new Error('Gzip threshold must be non-negative');
   }
+
+  for (const encoding of config.encodings) {
+    if (!compressionEncodings.includes(encoding)) {
+      throw new Error(`Unsupported encoding: ${encoding} (expected one of ${compressionEncodings.join(', ')})`);
+    }
+  }
+
+  if (config.brotliQuality < 0 || config.brotliQuality > 11) {
+    throw new Error('Brotli quality must be between 0 and 11');
+  }
+
+  if (config.cacheMaxAge < 0) {
+    throw new Error('Cache max age must be non-negative');
+  }
+
+  for (const rule of config.cacheControl) {
+    validatePathPattern(rule, 'cacheControl');
+    if (typeof rule.value !== 'string') {
+      throw new Error(`Invalid cacheControl rule: ${JSON.stringify(rule)} (expected a value)`);
+    }
+  }
+
+  if (config.cors.enabled !== true && config.cors.enabled !== false && config.cors.enabled !== 'api') {
+    throw new Error(`Invalid CORS mode: ${JSON.stringify(config.cors.enabled)} (expected true, false or "api")`);
+  }
+
+  for (const origin of config.cors.origins) {
+    try {
+      parseOriginPattern(origin);
+    } catch {
+      throw new Error(`Invalid CORS origin pattern: ${origin}`);
+    }
+  }
+
+  if (config.cors.maxAge !== null && config.cors.maxAge < 0) {
+    throw new Error('CORS max age must be non-negative');
+  }
+
+  // 证书只在启用 HTTPS / HTTP/2 时使用，关闭时配置的路径不必存在
+  if (config.https.enabled || config.http2) {
+    if (Boolean(config.https.cert) !== Boolean(config.https.key)) {
+      throw new Error('Both https.cert and https.key must be provided');
+    }
+
+    for (const file of [config.https.cert, config.https.key]) {
+      if (file && !fs.existsSync(file)) {
+        throw new Error(`TLS file does not exist: ${file}`);
+      }
+    }
+  }
+
+  if (!['none', 'api', 'all'].includes(config.auth.protect)) {
+    throw new Error(`Invalid auth scope: ${config.auth.protect} (expected none, api or all)`);
+  }
+
+  for (const user of config.auth.users) {
+    if (!user.username || user.username.includes(':')) {
+      throw new Error(`Invalid auth username: ${JSON.stringify(user.username)}`);
+    }
+    if (typeof user.password !== 'string' || !isSupportedHash(user.password)) {
+      throw new Error(`Password for ${user.username} must be a bcrypt or scrypt hash (use "gzip-server hash-password")`);
+    }
+  }
+
+  if (config.auth.tokens.some(token => typeof token !== 'string' || token.length === 0)) {
+    throw new Error('Auth tokens must be non-empty strings');
+  }
+
+  if (config.auth.protect !== 'none' && config.auth.users.length === 0 && config.auth.tokens.length === 0) {
+    throw new Error('Authentication is enabled but no users or tokens are configured');
+  }
+
+  if (config.tus.maxSize <= 0) {
+    throw new Error('tus max size must be positive');
+  }
+
+  if (config.tus.expiration <= 0) {
+    throw new Error('tus expiration must be positive');
+  }
+
+  for (const key of ['maxFileSize', 'maxRequestSize', 'maxFiles'] as const) {
+    if (!Number.isInteger(config.upload[key]) || config.upload[key] <= 0) {
+      throw new Error(`upload.${key} must be a positive integer`);
+    }
+  }
+
+  if (config.upload.quota !== null && (!Number.isInteger(config.upload.quota) || config.upload.quota <= 0)) {
+    throw new Error('upload.quota must be a positive integer or null');
+  }
+
+  for (const key of ['maxVersions', 'maxAge'] as const) {
+    const value = config.versioning[key];
+    if (value !== null && (!Number.isInteger(value) || value <= 0)) {
+      throw new Error(`versioning.${key} must be a positive integer or null`);
+    }
+  }
+
+  for (const key of ['maxEntries', 'maxTotalSize', 'maxRatio'] as const) {
+    const value = config.extraction[key];
+    if (!Number.isInteger(value) || value <= 0) {
+      throw new Error(`extraction.${key} must be a positive integer`);
+    }
+  }
+
+  for (const key of ['allowedMimeTypes', 'deniedMimeTypes'] as const) {
+    for (const type of config.upload[key]) {
+      if (!/^[\w.+-]+\/([\w.+-]+|\*)$/.test(type)) {
+        throw new Error(`Invalid MIME type in upload.${key}: ${type} (expected type/subtype or type/*)`);
+      }
+    }
+  }
+
+  for (const preset of config.headers.presets) {
+    if (!(preset in HEADER_PRESETS)) {
+      throw new Error(`Unknown header preset: ${preset} (expected one of ${Object.keys(HEADER_PRESETS).join(', ')})`);
+    }
+  }
+
+  for (const rule of config.headers.rules) {
+    validatePathPattern(rule, 'headers');
+    if (!rule.headers || typeof rule.headers !== 'object') {
+      throw new Error(`Invalid headers rule: ${JSON.stringify(rule)} (expected a headers object)`);
+    }
+  }
+
+  if (!/^\/[^?#]*[^/?#]$/.test(config.apiPrefix)) {
+    throw new Error(`Invalid API prefix: ${config.apiPrefix} (expected a path like /api)`);
+  }
+
+  for (const rule of config.proxy) {
+    if (typeof rule.context !== 'string' || !rule.context.startsWith('/')) {
+      throw new Error(`Invalid proxy context: ${JSON.stringify(rule.context)} (expected a path starting with /)`);
+    }
+    let target: URL;
+    try {
+      target = new URL(rule.target);
+    } catch {
+      throw new Error(`Invalid proxy target: ${rule.target}`);
+    }
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+      throw new Error(`Invalid proxy target: ${rule.target} (expected http or https)`);
+    }
+    for (const pattern of Object.keys(rule.pathRewrite || {})) {
+      try {
+        new RegExp(pattern);
+      } catch {
+        throw new Error(`Invalid proxy pathRewrite pattern: ${pattern}`);
+      }
+    }
+    if (rule.timeout !== undefined && rule.timeout <= 0) {
+      throw new Error('Proxy timeout must be positive');
+    }
+    if (proxyShadowsApi(rule.context, config.apiPrefix)) {
+      throw new Error(`Proxy context ${rule.context} overlaps apiPrefix ${config.apiPrefix} (proxy rules are matched before the built-in API; set apiPrefix to another path such as /__upload-api or narrow the proxy context)`);
+    }
+  }
+
+  for (const rule of config.rewrites) {
+    if (typeof rule.source !== 'string' || typeof rule.destination !== 'string') {
+      throw new Error(`Invalid rewrite rule: ${JSON.stringify(rule)} (expected source and destination)`);
+    }
+    try {
+      new RegExp(rule.source);
+    } catch {
+      throw new Error(`Invalid rewrite source: ${rule.source}`);
+    }
+    if (rule.status !== undefined && ![301, 302, 307, 308].includes(rule.status)) {
+      throw new Error(`Invalid redirect status: ${rule.status} (expected 301, 302, 307 or 308)`);
+    }
+    if (rule.status === undefined && !rule.destination.startsWith('/')) {
+      throw new Error(`Invalid rewrite destination: ${rule.destination} (rewrites must target a local path)`);
+    }
+  }
+
+  if (!['always', 'never', 'ignore'].includes(config.trailingSlash)) {
+    throw new Error(`Invalid trailingSlash mode: ${config.trailingSlash} (expected always, never or ignore)`);
+  }
+
+  if (config.etag !== 'mtime' && config.etag !== 'content') {
+    throw new Error(`Unsupported ETag strategy: ${config.etag} (expected mtime or content)`);
+  }
+
+  if (config.streamThreshold < 0) {
+    throw new Error('Stream threshold must be non-negative');
+  }
+
+  if (config.zstdLevel < 1 || config.zstdLevel > 22) {
+    throw new Error('Zstd level must be between 1 and 22');
+  }
 }
 
 export function resolveConfig(config: ServerConfig): ServerConfig {
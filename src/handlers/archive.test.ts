@@ -0,0 +1,92 @@
+import http, { Server } from 'http';
+import { AddressInfo } from 'net';
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ArchiveHandler } from './archive';
+import { extractArchive } from '../utils/archive';
+import { createLogger } from '../utils/logger';
+import { request } from '../test/http';
+
+let baseDir: string;
+let rootDir: string;
+let server: Server;
+let port: number;
+
+beforeAll(async () => {
+  baseDir = mkdtempSync(join(tmpdir(), 'archive-handler-test-'));
+  rootDir = join(baseDir, 'site');
+
+  // 较深的目录树，外加隐藏文件、指向上级目录的符号链接和根目录之外的符号链接
+  let deep = join(rootDir, 'docs');
+  for (let depth = 0; depth < 12; depth++) {
+    deep = join(deep, `level-${depth}`);
+  }
+  mkdirSync(deep, { recursive: true });
+  writeFileSync(join(deep, 'deep.txt'), 'deep');
+  writeFileSync(join(rootDir, 'index.html'), '<h1>home</h1>');
+  writeFileSync(join(rootDir, 'docs', 'readme.md'), '# readme');
+  writeFileSync(join(rootDir, 'docs', 'notes.log'), 'log');
+  writeFileSync(join(rootDir, '.secret'), 'hidden');
+  mkdirSync(join(baseDir, 'outside'));
+  writeFileSync(join(baseDir, 'outside', 'leak.txt'), 'leak');
+  symlinkSync(join(baseDir, 'outside'), join(rootDir, 'outside-link'));
+  symlinkSync(rootDir, join(rootDir, 'docs', 'loop'));
+
+  const handler = new ArchiveHandler(rootDir, join(baseDir, 'uploads'), createLogger('error'));
+  server = http.createServer((req, res) => {
+    handler.handleRequest(req, res);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  port = (server.address() as AddressInfo).port;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+  rmSync(baseDir, { recursive: true, force: true });
+});
+
+// 下载 zip 并解压，返回其中的文件路径
+async function archivedFiles(query: string): Promise<string[]> {
+  const res = await request(port, `/api/archive?${query}`);
+  expect(res.status).toBe(200);
+
+  const archivePath = join(baseDir, 'download.zip');
+  const stagingDir = join(baseDir, 'staging');
+  writeFileSync(archivePath, res.body);
+  rmSync(stagingDir, { recursive: true, force: true });
+
+  const result = await extractArchive(archivePath, 'zip', stagingDir, {
+    maxEntries: 1000,
+    maxEntrySize: 1024 * 1024,
+    maxTotalSize: 1024 * 1024,
+    maxRatio: 1000
+  });
+  if (!result.ok) {
+    throw new Error(result.rejection.message);
+  }
+  return result.entries.map(entry => entry.path).sort();
+}
+
+describe('ArchiveHandler', () => {
+  const deepFile = `docs/${Array.from({ length: 12 }, (_, depth) => `level-${depth}`).join('/')}/deep.txt`;
+
+  it('archives nested directories and skips hidden files and symlinks that escape or loop', async () => {
+    expect(await archivedFiles('format=zip')).toEqual([deepFile, 'docs/notes.log', 'docs/readme.md', 'index.html'].sort());
+  });
+
+  it('applies include and exclude globs', async () => {
+    expect(await archivedFiles('include=*.md&include=*.html')).toEqual(['docs/readme.md', 'index.html']);
+    expect(await archivedFiles('path=docs&exclude=level-0')).toEqual(['notes.log', 'readme.md']);
+  });
+
+  it('returns 404 for missing or hidden directories', async () => {
+    expect((await request(port, '/api/archive?path=missing')).status).toBe(404);
+    expect((await request(port, '/api/archive?path=.secret')).status).toBe(404);
+  });
+
+  it('sends the archive name in both Content-Disposition parameters', async () => {
+    const res = await request(port, '/api/archive?path=docs&format=tar.gz', { method: 'HEAD' });
+    expect(res.headers['content-disposition']).toBe(`attachment; filename="docs.tar.gz"; filename*=UTF-8''docs.tar.gz`);
+  });
+});
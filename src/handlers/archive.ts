@@ -0,0 +1,244 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { statSync, Stats } from 'fs';
+import { access, opendir, realpath, stat } from 'fs/promises';
+import { basename, join, relative, resolve, sep } from 'path';
+import { pipeline, Writable } from 'stream';
+import { createGzip } from 'zlib';
+import { Logger } from '../types';
+import { ArchiveItem, ArchiveWriter, TarWriter, ZipWriter } from '../utils/archive-writer';
+import { contentDisposition } from '../utils/disposition';
+import { matchAnyGlob } from '../utils/glob';
+import { sendJsonError } from '../utils/json';
+import { getMimeType, shouldCompress } from '../utils/mime';
+import { resolveWithin } from '../utils/paths';
+import { formatSize } from './directory';
+
+type ArchiveSource = 'root' | 'upload';
+type DownloadFormat = 'zip' | 'tar.gz';
+
+// 两次进度日志之间的最短间隔
+const PROGRESS_INTERVAL = 1000;
+
+interface ArchiveRequest {
+  source: ArchiveSource;
+  format: DownloadFormat;
+  // 相对 rootDir / uploadDir 的目录，根目录为空字符串
+  path: string;
+  include: string[];
+  exclude: string[];
+}
+
+// 待遍历的目录，prefix 为它在压缩包中的路径
+interface PendingDirectory {
+  dir: string;
+  prefix: string;
+}
+
+// 按目录打包下载：<apiPrefix>/archive?path=<目录>&format=zip|tar.gz&source=root|upload，
+// 边遍历边压缩直接写入响应，不生成临时文件
+export class ArchiveHandler {
+  private dirs: Record<ArchiveSource, string>;
+  private logger: Logger;
+
+  constructor(rootDir: string, uploadDir: string, logger: Logger) {
+    this.dirs = { root: resolve(rootDir), upload: resolve(uploadDir) };
+    this.logger = logger;
+  }
+
+  private parseRequest(query: URLSearchParams): ArchiveRequest | string {
+    const source = query.get('source') || 'root';
+    if (source !== 'root' && source !== 'upload') {
+      return `Unknown source: ${source} (expected root or upload)`;
+    }
+
+    const format = query.get('format') || 'zip';
+    if (format !== 'zip' && format !== 'tar.gz' && format !== 'tgz') {
+      return `Unknown format: ${format} (expected zip or tar.gz)`;
+    }
+
+    return {
+      source,
+      format: format === 'zip' ? 'zip' : 'tar.gz',
+      path: query.get('path') || '',
+      include: query.getAll('include').filter(Boolean),
+      exclude: query.getAll('exclude').filter(Boolean)
+    };
+  }
+
+  // 与静态文件相同的越界检查；以 . 开头的路径（隐藏文件以及 uploadDir 中的 .tus、.versions 等内部数据）视为不存在
+  private resolveDirectory(request: ArchiveRequest): string | null {
+    const baseDir = this.dirs[request.source];
+    const segments = request.path.split(/[/\\]/).filter(segment => segment !== '');
+    if (segments.some(segment => segment.startsWith('.') || segment.includes('\0'))) {
+      return null;
+    }
+
+    const fullPath = resolveWithin(baseDir, segments.join('/'));
+    try {
+      return fullPath && statSync(fullPath).isDirectory() ? fullPath : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // 符号链接指向根目录之外时跳过
+  private async isContained(baseDir: string, fullPath: string): Promise<boolean> {
+    try {
+      const real = await realpath(fullPath);
+      const realBase = await realpath(baseDir);
+      return real === realBase || real.startsWith(realBase + sep);
+    } catch {
+      return false;
+    }
+  }
+
+  // 收集要打包的文件和目录，name 相对被打包的目录；排除的目录不再继续遍历。
+  // 用显式栈代替递归并异步读取目录，深层或很大的目录树不会阻塞事件循环
+  private async collect(request: ArchiveRequest, rootDir: string): Promise<ArchiveItem[]> {
+    const baseDir = this.dirs[request.source];
+    const items: ArchiveItem[] = [];
+    const stack: PendingDirectory[] = [{ dir: rootDir, prefix: '' }];
+
+    while (stack.length > 0) {
+      const { dir, prefix } = stack.pop() as PendingDirectory;
+      const subdirectories: PendingDirectory[] = [];
+
+      for await (const entry of await opendir(dir)) {
+        // 隐藏文件不打包，与目录列表一致
+        if (entry.name.startsWith('.')) continue;
+
+        const name = prefix ? `${prefix}/${entry.name}` : entry.name;
+        const fullPath = join(dir, entry.name);
+        if (request.exclude.length > 0 && matchAnyGlob(name, request.exclude)) continue;
+        if (entry.isSymbolicLink() && !(await this.isContained(baseDir, fullPath))) continue;
+
+        let stats: Stats;
+        try {
+          stats = await stat(fullPath);
+        } catch {
+          continue;
+        }
+
+        if (stats.isDirectory()) {
+          // 指向上级目录的符号链接会导致无限循环
+          if (entry.isSymbolicLink()) continue;
+          if (request.include.length === 0) {
+            items.push(this.toItem(name, fullPath, stats, true));
+          }
+          subdirectories.push({ dir: fullPath, prefix: name });
+          continue;
+        }
+
+        if (!stats.isFile()) continue;
+        // uploadDir 中自动生成的 .gz 副本不单独打包
+        if (request.source === 'upload' && entry.name.endsWith('.gz') && await this.exists(fullPath.slice(0, -'.gz'.length))) continue;
+        if (request.include.length > 0 && !matchAnyGlob(name, request.include)) continue;
+
+        items.push(this.toItem(name, fullPath, stats, false));
+      }
+
+      // 逆序入栈，子目录按读取顺序出栈
+      stack.push(...subdirectories.reverse());
+    }
+
+    return items;
+  }
+
+  private async exists(fullPath: string): Promise<boolean> {
+    try {
+      await access(fullPath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private toItem(name: string, fullPath: string, stats: Stats, directory: boolean): ArchiveItem {
+    return {
+      name,
+      path: fullPath,
+      directory,
+      size: directory ? 0 : stats.size,
+      mtime: stats.mtime,
+      mode: stats.mode,
+      compress: !directory && shouldCompress(getMimeType(fullPath))
+    };
+  }
+
+  public async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const query = new URL(req.url || '/', 'http://localhost').searchParams;
+    const request = this.parseRequest(query);
+    if (typeof request === 'string') {
+      sendJsonError(res, 400, 'invalid_query', request);
+      return;
+    }
+
+    const dir = this.resolveDirectory(request);
+    if (!dir) {
+      sendJsonError(res, 404, 'not_found', `Directory not found: ${request.path || '/'}`);
+      return;
+    }
+
+    const items = await this.collect(request, dir);
+
+    const baseDir = this.dirs[request.source];
+    const archiveName = `${basename(dir === baseDir ? baseDir : dir) || 'archive'}.${request.format}`;
+    res.writeHead(200, {
+      'Content-Type': request.format === 'zip' ? 'application/zip' : 'application/gzip',
+      'Content-Disposition': contentDisposition(archiveName),
+      'Cache-Control': 'no-store'
+    });
+
+    if (req.method === 'HEAD') {
+      res.end();
+      return;
+    }
+
+    // tar.gz 先写入 gzip 压缩流再发送；zip 中的文件已单独压缩，直接写入响应
+    let out: Writable = res;
+    if (request.format === 'tar.gz') {
+      const gzip = createGzip({ level: 6 });
+      pipeline(gzip, res, () => {});
+      out = gzip;
+    }
+    const writer: ArchiveWriter = request.format === 'zip' ? new ZipWriter(out) : new TarWriter(out);
+
+    const label = `${request.source === 'root' ? 'rootDir' : 'uploadDir'}/${relative(baseDir, dir).split(sep).join('/')}`;
+    const files = items.filter(item => !item.directory);
+    const totalBytes = files.reduce((total, item) => total + item.size, 0);
+    const startTime = Date.now();
+    let doneFiles = 0;
+    let doneBytes = 0;
+    let lastReport = startTime;
+
+    this.logger.info(`Archive ${archiveName} started: ${label} (${files.length} files, ${formatSize(totalBytes)})`);
+
+    try {
+      for (const item of items) {
+        await writer.add(item, (length) => {
+          doneBytes += length;
+          const now = Date.now();
+          if (now - lastReport >= PROGRESS_INTERVAL) {
+            lastReport = now;
+            const percent = totalBytes > 0 ? Math.min(Math.round(doneBytes / totalBytes * 100), 100) : 100;
+            this.logger.info(`Archive ${archiveName}: ${percent}% (${doneFiles}/${files.length} files, ${formatSize(doneBytes)} / ${formatSize(totalBytes)})`);
+          }
+        });
+        if (!item.directory) {
+          doneFiles++;
+        }
+      }
+      await writer.finish();
+      this.logger.info(`Archive ${archiveName} completed: ${doneFiles} files, ${formatSize(doneBytes)} in ${Date.now() - startTime}ms`);
+    } catch (error) {
+      // 响应头已发送，只能中断连接，客户端会得到不完整的压缩包
+      if (res.destroyed || res.writableEnded) {
+        this.logger.warn(`Archive ${archiveName} aborted by client after ${doneFiles}/${files.length} files`);
+      } else {
+        this.logger.error(`Archive ${archiveName} failed:`, error as Error);
+      }
+      out.destroy();
+      res.destroy();
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import { IncomingMessage } from 'http';
+import { AuthHandler } from './auth';
+import { AuthConfig } from '../types';
+import { createLogger } from '../utils/logger';
+import { hashPassword } from '../utils/password';
+
+let config: AuthConfig;
+
+beforeAll(async () => {
+  config = {
+    protect: 'api',
+    realm: 'Test',
+    users: [{ username: 'admin', password: await hashPassword('s3cret') }],
+    tokens: ['token-1']
+  };
+});
+
+function handler(overrides: Partial<AuthConfig> = {}): AuthHandler {
+  return new AuthHandler({ ...config, ...overrides }, '/api', createLogger('error'));
+}
+
+function withAuthorization(authorization?: string): IncomingMessage {
+  return { headers: authorization ? { authorization } : {} } as IncomingMessage;
+}
+
+function basic(username: string, password: string): string {
+  return `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+}
+
+describe('AuthHandler.requiresAuth', () => {
+  it('protects only the API prefix for the api scope', () => {
+    const auth = handler();
+    expect(auth.requiresAuth('/api')).toBe(true);
+    expect(auth.requiresAuth('/api/files')).toBe(true);
+    expect(auth.requiresAuth('/apix')).toBe(false);
+    expect(auth.requiresAuth('/index.html')).toBe(false);
+  });
+
+  it('protects everything for all and nothing for none', () => {
+    expect(handler({ protect: 'all' }).requiresAuth('/index.html')).toBe(true);
+    expect(handler({ protect: 'none' }).requiresAuth('/api/files')).toBe(false);
+  });
+});
+
+describe('AuthHandler.authenticate', () => {
+  it('reports missing credentials', async () => {
+    expect(await handler().authenticate(withAuthorization())).toEqual({ status: 'missing' });
+  });
+
+  it('accepts a valid Basic password and rejects a wrong one', async () => {
+    const auth = handler();
+    expect(await auth.authenticate(withAuthorization(basic('admin', 's3cret')))).toEqual({ status: 'ok', principal: 'admin' });
+    expect(await auth.authenticate(withAuthorization(basic('admin', 'wrong')))).toEqual({ status: 'invalid', principal: 'admin' });
+    expect(await auth.authenticate(withAuthorization(basic('nobody', 's3cret')))).toEqual({ status: 'invalid', principal: 'nobody' });
+  });
+
+  it('rejects malformed Basic credentials', async () => {
+    const malformed = `Basic ${Buffer.from('no-separator').toString('base64')}`;
+    expect((await handler().authenticate(withAuthorization(malformed))).status).toBe('invalid');
+  });
+
+  it('accepts configured bearer tokens only', async () => {
+    const auth = handler();
+    expect((await auth.authenticate(withAuthorization('Bearer token-1'))).status).toBe('ok');
+    expect((await auth.authenticate(withAuthorization('Bearer token-2'))).status).toBe('invalid');
+  });
+
+  it('rejects Basic credentials when no users are configured', async () => {
+    const auth = handler({ users: [] });
+    expect((await auth.authenticate(withAuthorization(basic('admin', 's3cret')))).status).toBe('invalid');
+  });
+
+  it('rejects unknown schemes', async () => {
+    expect((await handler().authenticate(withAuthorization('Digest username="admin"'))).status).toBe('invalid');
+  });
+});
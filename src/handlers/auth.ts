@@ -0,0 +1,175 @@
+import crypto from 'crypto';
+import { IncomingMessage, ServerResponse } from 'http';
+import { Duplex } from 'stream';
+import { AuthConfig, Logger } from '../types';
+import { safeEqual, verifyPassword } from '../utils/password';
+
+// 验证通过的 Authorization 头部缓存上限，避免每个静态资源请求都重新计算哈希
+const VERIFIED_CACHE_SIZE = 100;
+
+type AuthResult =
+  | { status: 'ok'; principal: string }
+  | { status: 'missing' }
+  | { status: 'invalid'; principal: string };
+
+export class AuthHandler {
+  private config: AuthConfig;
+  private apiPrefix: string;
+  private logger: Logger;
+  private verified = new Map<string, string>();
+
+  constructor(config: AuthConfig, apiPrefix: string, logger: Logger) {
+    this.config = config;
+    this.apiPrefix = apiPrefix;
+    this.logger = logger;
+  }
+
+  public isEnabled(): boolean {
+    return this.config.protect !== 'none';
+  }
+
+  private isApiPath(pathname: string): boolean {
+    return pathname === this.apiPrefix || pathname.startsWith(this.apiPrefix + '/');
+  }
+
+  public requiresAuth(pathname: string): boolean {
+    switch (this.config.protect) {
+      case 'all':
+        return true;
+      case 'api':
+        return this.isApiPath(pathname);
+      default:
+        return false;
+    }
+  }
+
+  private async verifyBasic(credentials: string): Promise<AuthResult> {
+    const decoded = Buffer.from(credentials, 'base64').toString('utf-8');
+    const separator = decoded.indexOf(':');
+    if (separator === -1) {
+      return { status: 'invalid', principal: '(malformed)' };
+    }
+
+    const username = decoded.slice(0, separator);
+    const password = decoded.slice(separator + 1);
+    const user = this.config.users.find(candidate => safeEqual(candidate.username, username));
+
+    if (user && await verifyPassword(password, user.password)) {
+      return { status: 'ok', principal: username };
+    }
+    return { status: 'invalid', principal: username };
+  }
+
+  private verifyBearer(token: string): AuthResult {
+    const matched = this.config.tokens.some(candidate => safeEqual(candidate, token));
+    return matched
+      ? { status: 'ok', principal: 'bearer token' }
+      : { status: 'invalid', principal: 'bearer token' };
+  }
+
+  private rememberVerified(key: string, principal: string): void {
+    if (this.verified.size >= VERIFIED_CACHE_SIZE) {
+      const oldest = this.verified.keys().next().value;
+      if (oldest !== undefined) {
+        this.verified.delete(oldest);
+      }
+    }
+    this.verified.set(key, principal);
+  }
+
+  public async authenticate(req: IncomingMessage): Promise<AuthResult> {
+    const header = req.headers.authorization;
+    if (!header) {
+      return { status: 'missing' };
+    }
+
+    const cacheKey = crypto.createHash('sha256').update(header).digest('base64');
+    const cached = this.verified.get(cacheKey);
+    if (cached !== undefined) {
+      return { status: 'ok', principal: cached };
+    }
+
+    const [scheme, value = ''] = header.trim().split(/\s+/, 2);
+    let result: AuthResult;
+
+    switch (scheme.toLowerCase()) {
+      case 'basic':
+        result = this.config.users.length > 0
+          ? await this.verifyBasic(value)
+          : { status: 'invalid', principal: '(basic disabled)' };
+        break;
+      case 'bearer':
+        result = this.verifyBearer(value);
+        break;
+      default:
+        result = { status: 'invalid', principal: `(${scheme} scheme)` };
+    }
+
+    if (result.status === 'ok') {
+      this.rememberVerified(cacheKey, result.principal);
+    }
+    return result;
+  }
+
+  private challenges(): string[] {
+    const realm = this.config.realm.replace(/"/g, '');
+    const challenges: string[] = [];
+    if (this.config.users.length > 0) {
+      challenges.push(`Basic realm="${realm}", charset="UTF-8"`);
+    }
+    if (this.config.tokens.length > 0) {
+      challenges.push(`Bearer realm="${realm}"`);
+    }
+    return challenges;
+  }
+
+  private logFailure(req: IncomingMessage, result: AuthResult): void {
+    const ip = req.socket.remoteAddress || 'unknown';
+    if (result.status === 'invalid') {
+      this.logger.warn(`🔒 Authentication failed for ${result.principal} from ${ip}: ${req.method} ${req.url}`);
+    } else {
+      this.logger.debug(`Authentication required from ${ip}: ${req.method} ${req.url}`);
+    }
+  }
+
+  // 校验请求；未通过时发送 401 并返回 false
+  public async handleRequest(req: IncomingMessage, res: ServerResponse, pathname: string): Promise<boolean> {
+    if (!this.requiresAuth(pathname)) {
+      return true;
+    }
+
+    const result = await this.authenticate(req);
+    if (result.status === 'ok') {
+      return true;
+    }
+
+    this.logFailure(req, result);
+
+    const isApi = this.isApiPath(pathname);
+    const body = isApi ? JSON.stringify({ error: 'Unauthorized' }) : 'Unauthorized';
+    res.setHeader('WWW-Authenticate', this.challenges());
+    res.writeHead(401, {
+      'Content-Type': isApi ? 'application/json' : 'text/plain; charset=utf-8',
+      'Content-Length': Buffer.byteLength(body),
+      'Cache-Control': 'no-store'
+    });
+    res.end(body);
+    return false;
+  }
+
+  // WebSocket 升级请求在握手前校验，失败时直接关闭连接
+  public async handleUpgrade(req: IncomingMessage, socket: Duplex, pathname: string): Promise<boolean> {
+    if (!this.requiresAuth(pathname)) {
+      return true;
+    }
+
+    const result = await this.authenticate(req);
+    if (result.status === 'ok') {
+      return true;
+    }
+
+    this.logFailure(req, result);
+    socket.end('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\nContent-Length: 0\r\n\r\n');
+    return false;
+  }
+}
@@ -0,0 +1,20 @@
+import { IncomingMessage, ServerResponse } from 'http';
+
+// 页面通过 <script src="/__server-config.js"> 获取服务器配置，写入 window.__GZIP_SERVER__；
+// 路径固定，不受 apiPrefix 和代理规则影响
+export const CLIENT_CONFIG_PATH = '/__server-config.js';
+
+// 只包含页面需要、可以公开的配置项
+export interface ClientConfig {
+  apiPrefix: string;
+}
+
+export function sendClientConfig(req: IncomingMessage, res: ServerResponse, config: ClientConfig): void {
+  const script = `window.__GZIP_SERVER__ = ${JSON.stringify(config)};\n`;
+  res.writeHead(200, {
+    'Content-Type': 'application/javascript; charset=utf-8',
+    'Content-Length': Buffer.byteLength(script),
+    'Cache-Control': 'no-cache'
+  });
+  res.end(req.method === 'HEAD' ? undefined : script);
+}
@@ -0,0 +1,134 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { DirectoryEntry, DirectoryListing } from '../types';
+import { appendVary } from '../utils/vary';
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let size = bytes / 1024;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${size.toFixed(1)} ${units[unit]}`;
+}
+
+export function prefersJson(req: IncomingMessage): boolean {
+  const accept = req.headers.accept || '';
+  return accept.includes('application/json');
+}
+
+// 目录在前，其余按名称排序
+export function sortEntries(entries: DirectoryEntry[]): DirectoryEntry[] {
+  return entries.sort((a, b) => {
+    if (a.type !== b.type) {
+      return a.type === 'directory' ? -1 : 1;
+    }
+    return a.name.localeCompare(b.name);
+  });
+}
+
+function renderRow(entry: DirectoryEntry): string {
+  const isDirectory = entry.type === 'directory';
+  const href = encodeURIComponent(entry.name) + (isDirectory ? '/' : '');
+  const name = escapeHtml(entry.name) + (isDirectory ? '/' : '');
+  const mtime = new Date(entry.mtime);
+
+  return `<tr>
+      <td data-value="${isDirectory ? 0 : 1}${escapeHtml(entry.name.toLowerCase())}"><a href="${href}">${name}</a></td>
+      <td data-value="${isDirectory ? -1 : entry.size}">${isDirectory ? '-' : formatSize(entry.size)}</td>
+      <td data-value="${entry.gzipSize ?? -1}">${entry.gzipSize === null ? '-' : formatSize(entry.gzipSize)}</td>
+      <td data-value="${escapeHtml(entry.mimeType || '')}">${escapeHtml(entry.mimeType || 'directory')}</td>
+      <td data-value="${mtime.getTime()}">${escapeHtml(mtime.toLocaleString())}</td>
+    </tr>`;
+}
+
+export function renderDirectoryHtml(listing: DirectoryListing): string {
+  const title = `Index of ${escapeHtml(listing.path)}`;
+  const parentRow = listing.path === '/'
+    ? ''
+    : `<tr><td data-value="-"><a href="../">../</a></td><td></td><td></td><td></td><td></td></tr>`;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${title}</title>
+  <base href="${escapeHtml(encodeURI(listing.path.replace(/\/?$/, '/')))}">
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; margin: 24px; color: #333; }
+    h1 { font-size: 20px; margin-bottom: 16px; }
+    table { border-collapse: collapse; width: 100%; font-size: 14px; }
+    th, td { padding: 6px 12px; text-align: left; border-bottom: 1px solid #eee; }
+    th { cursor: pointer; user-select: none; background: #f7f7f7; }
+    th[data-order="asc"]::after { content: ' ▲'; }
+    th[data-order="desc"]::after { content: ' ▼'; }
+    a { color: #2196F3; text-decoration: none; }
+    a:hover { text-decoration: underline; }
+  </style>
+</head>
+<body>
+  <h1>${title}</h1>
+  <table>
+    <thead>
+      <tr>
+        <th data-type="string">Name</th>
+        <th data-type="number">Size</th>
+        <th data-type="number">Gzip Size</th>
+        <th data-type="string">Type</th>
+        <th data-type="number">Modified</th>
+      </tr>
+    </thead>
+    <tbody class="parent">
+    ${parentRow}
+    </tbody>
+    <tbody class="entries">
+    ${listing.entries.map(renderRow).join('\n    ')}
+    </tbody>
+  </table>
+  <script>
+    document.querySelectorAll('th').forEach(function (th, index) {
+      th.addEventListener('click', function () {
+        var order = th.getAttribute('data-order') === 'asc' ? 'desc' : 'asc';
+        document.querySelectorAll('th').forEach(function (other) { other.removeAttribute('data-order'); });
+        th.setAttribute('data-order', order);
+
+        var tbody = document.querySelector('tbody.entries');
+        var rows = Array.prototype.slice.call(tbody.rows);
+        var numeric = th.getAttribute('data-type') === 'number';
+        rows.sort(function (a, b) {
+          var x = a.cells[index].getAttribute('data-value');
+          var y = b.cells[index].getAttribute('data-value');
+          var result = numeric ? Number(x) - Number(y) : x.localeCompare(y);
+          return order === 'asc' ? result : -result;
+        });
+        rows.forEach(function (row) { tbody.appendChild(row); });
+      });
+    });
+  </script>
+</body>
+</html>`;
+}
+
+export function sendDirectoryListing(req: IncomingMessage, res: ServerResponse, listing: DirectoryListing): void {
+  const asJson = prefersJson(req);
+  const body = asJson ? JSON.stringify(listing, null, 2) : renderDirectoryHtml(listing);
+
+  res.setHeader('Content-Type', asJson ? 'application/json; charset=utf-8' : 'text/html; charset=utf-8');
+  res.setHeader('Content-Length', Buffer.byteLength(body));
+  res.setHeader('Cache-Control', 'no-cache');
+  appendVary(res, 'Accept');
+  res.writeHead(200);
+  res.end(body);
+}
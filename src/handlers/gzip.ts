@@ -1,30 +1,196 @@
 import zlib from 'zlib';
+import { Transform } from 'stream';
 import { IncomingMessage, ServerResponse } from 'http';
-import { CompressionResult } from '../types';
+import { CompressionEncoding, CompressionOptions, CompressionResult, ContentEncoding } from '../types';
 import { shouldCompress } from '../utils/mime';
+import { appendVary } from '../utils/vary';
+
+type ZlibCallback = (err: Error | null, result: Buffer) => void;
+
+interface ZstdOptions {
+  params: Record<number, number>;
+}
+
+// zstd 仅在较新的 Node.js 版本中可用（>= 22.15），当前的 @types/node 中没有这些声明，
+// 因此按可选成员描述，运行时检测是否存在
+interface OptionalZstdApi {
+  zstdCompress?: (buffer: Buffer, options: ZstdOptions, callback: ZlibCallback) => void;
+  createZstdCompress?: (options: ZstdOptions) => Transform;
+  constants: typeof zlib.constants & { ZSTD_c_compressionLevel?: number };
+}
+
+const zstdApi: OptionalZstdApi = zlib;
+
+// 返回 zstd 的压缩参数，当前 Node.js 不支持 zstd 时返回 null
+function zstdOptions(level: number): ZstdOptions | null {
+  const levelParam = zstdApi.constants.ZSTD_c_compressionLevel;
+  return levelParam === undefined ? null : { params: { [levelParam]: level } };
+}
+
+export const defaultCompressionOptions: CompressionOptions = {
+  gzipLevel: 6,
+  // 动态压缩（包括流式压缩）每个请求都要执行，质量 11 只适合离线生成 .br 文件，大文件会占用数秒 CPU
+  brotliQuality: 5,
+  zstdLevel: 3
+};
+
+// 预压缩文件（sidecar）的扩展名
+export const sidecarExtensions: Record<CompressionEncoding, string> = {
+  br: '.br',
+  zstd: '.zst',
+  gzip: '.gz'
+};
+
+export function isEncodingSupported(encoding: CompressionEncoding): boolean {
+  return encoding !== 'zstd'
+    || (typeof zstdApi.zstdCompress === 'function' && zstdApi.constants.ZSTD_c_compressionLevel !== undefined);
+}
+
+// 解析 Accept-Encoding 头部，返回编码名称到 q 值的映射
+export function parseAcceptEncoding(header: string): Map<string, number> {
+  const result = new Map<string, number>();
+
+  for (const part of header.split(',')) {
+    const [rawName, ...params] = part.trim().split(';');
+    let name = rawName.trim().toLowerCase();
+    if (!name) continue;
+
+    // x-gzip 是 gzip 的别名
+    if (name === 'x-gzip') {
+      name = 'gzip';
+    }
+
+    let q = 1;
+    for (const param of params) {
+      const [key, value] = param.trim().split('=');
+      if (key.trim().toLowerCase() === 'q') {
+        const parsed = parseFloat(value);
+        q = isNaN(parsed) ? 0 : Math.min(Math.max(parsed, 0), 1);
+      }
+    }
+
+    // 同一编码出现多次时保留最高的 q 值
+    result.set(name, Math.max(q, result.get(name) ?? 0));
+  }
+
+  return result;
+}
+
+// 从服务器可用编码中选出客户端最偏好的编码；q 值相同时按服务器顺序优先。
+// 所有编码（包括 identity）都不可接受时返回 null
+export function negotiateEncoding(
+  req: IncomingMessage,
+  available: CompressionEncoding[]
+): ContentEncoding | null {
+  const header = req.headers['accept-encoding'];
+
+  // 未提供头部时只使用 identity
+  if (header === undefined) {
+    return 'identity';
+  }
+
+  const accepted = parseAcceptEncoding(Array.isArray(header) ? header.join(',') : header);
+  const wildcard = accepted.get('*');
+
+  let best: ContentEncoding | null = null;
+  let bestQ = 0;
+
+  for (const encoding of available) {
+    const q = accepted.get(encoding) ?? wildcard ?? 0;
+    if (q > bestQ) {
+      best = encoding;
+      bestQ = q;
+    }
+  }
+
+  // identity 默认可接受，除非被显式排除（identity;q=0 或 *;q=0）
+  const identityQ = accepted.get('identity') ?? (wildcard === 0 ? 0 : 1);
+  if (identityQ > bestQ) {
+    return 'identity';
+  }
+
+  return best;
+}
 
 export function acceptsGzip(req: IncomingMessage): boolean {
-  const acceptEncoding = req.headers['accept-encoding'] || '';
-  return acceptEncoding.includes('gzip');
+  return negotiateEncoding(req, ['gzip']) === 'gzip';
 }
 
-export function compressBuffer(buffer: Buffer, level: number = 6): Promise<Buffer> {
+export function compressBuffer(
+  buffer: Buffer,
+  encoding: CompressionEncoding = 'gzip',
+  options: Partial<CompressionOptions> = {}
+): Promise<Buffer> {
+  const { gzipLevel, brotliQuality, zstdLevel } = { ...defaultCompressionOptions, ...options };
+
   return new Promise((resolve, reject) => {
-    zlib.gzip(buffer, { level }, (err, result) => {
+    const callback: ZlibCallback = (err, result) => {
       if (err) {
         reject(err);
       } else {
         resolve(result);
       }
-    });
+    };
+
+    switch (encoding) {
+      case 'br':
+        zlib.brotliCompress(buffer, {
+          params: {
+            [zlib.constants.BROTLI_PARAM_QUALITY]: brotliQuality,
+            [zlib.constants.BROTLI_PARAM_SIZE_HINT]: buffer.length
+          }
+        }, callback);
+        break;
+
+      case 'zstd': {
+        const options = zstdOptions(zstdLevel);
+        if (!zstdApi.zstdCompress || !options) {
+          reject(new Error('zstd compression is not supported by this Node.js version'));
+          return;
+        }
+        zstdApi.zstdCompress(buffer, options, callback);
+        break;
+      }
+
+      default:
+        zlib.gzip(buffer, { level: gzipLevel }, callback);
+        break;
+    }
   });
 }
 
+// 创建流式压缩器，用于大文件的边读边压缩
+export function createCompressionStream(
+  encoding: CompressionEncoding,
+  options: Partial<CompressionOptions> = {}
+): Transform {
+  const { gzipLevel, brotliQuality, zstdLevel } = { ...defaultCompressionOptions, ...options };
+
+  switch (encoding) {
+    case 'br':
+      return zlib.createBrotliCompress({
+        params: { [zlib.constants.BROTLI_PARAM_QUALITY]: brotliQuality }
+      });
+
+    case 'zstd': {
+      const zstd = zstdOptions(zstdLevel);
+      if (!zstdApi.createZstdCompress || !zstd) {
+        throw new Error('zstd compression is not supported by this Node.js version');
+      }
+      return zstdApi.createZstdCompress(zstd);
+    }
+
+    default:
+      return zlib.createGzip({ level: gzipLevel });
+  }
+}
+
 export async function compressIfNeeded(
   content: Buffer,
   mimeType: string,
   threshold: number = 1024,
-  level: number = 6
+  encoding: CompressionEncoding = 'gzip',
+  options: Partial<CompressionOptions> = {}
 ): Promise<CompressionResult | null> {
   // 检查文件大小是否超过阈值
   if (content.length < threshold) {
@@ -37,12 +203,12 @@ export async function compressIfNeeded(
   }
 
   try {
-    const compressed = await compressBuffer(content, level);
+    const compressed = await compressBuffer(content, encoding, options);
     return {
       content: compressed,
       originalSize: content.length,
       compressedSize: compressed.length,
-      encoding: 'gzip'
+      encoding
     };
   } catch (error) {
     console.warn('Compression failed:', error);
@@ -52,16 +218,20 @@ export async function compressIfNeeded(
 
 export function setCompressionHeaders(
   res: ServerResponse,
-  compressionResult: CompressionResult | null,
+  compressionResult: Omit<CompressionResult, 'content'> | null,
   etag: string,
   lastModified: string,
-  mimeType: string
+  mimeType: string,
+  cacheControl: string = 'public, max-age=3600'
 ): void {
   // 设置基本头部
   res.setHeader('Content-Type', mimeType);
   res.setHeader('ETag', etag);
   res.setHeader('Last-Modified', lastModified);
-  res.setHeader('Cache-Control', 'public, max-age=3600');
+  res.setHeader('Cache-Control', cacheControl);
+
+  // 响应内容随 Accept-Encoding 变化，无论本次是否压缩都需要告知缓存
+  appendVary(res, 'Accept-Encoding');
 
   if (compressionResult) {
     res.setHeader('Content-Encoding', compressionResult.encoding);
@@ -76,7 +246,3 @@ export function setCompressionHeaders(
     res.setHeader('X-Compression', 'none');
   }
 }
-
-export function shouldServeCompressed(req: IncomingMessage, compressionResult: CompressionResult | null): boolean {
-  return compressionResult !== null && acceptsGzip(req);
-}
\ No newline at end of file
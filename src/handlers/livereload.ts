@@ -0,0 +1,157 @@
+import path from 'path';
+import { IncomingMessage, ServerResponse } from 'http';
+import { Logger } from '../types';
+import { formatEvent, openEventStream, startHeartbeat } from '../utils/sse';
+
+export const LIVE_RELOAD_PATH = '/__livereload';
+export const LIVE_RELOAD_SCRIPT_PATH = '/__livereload.js';
+
+// 注入到 HTML 中的脚本标签
+export const LIVE_RELOAD_SNIPPET = `<script src="${LIVE_RELOAD_SCRIPT_PATH}"></script>`;
+
+const CLIENT_SCRIPT = `(function () {
+  if (!window.EventSource || window.__gzipServerLiveReload) return;
+  window.__gzipServerLiveReload = true;
+
+  function refreshStylesheets(paths) {
+    var links = document.querySelectorAll('link[rel="stylesheet"]');
+    var matched = false;
+    Array.prototype.forEach.call(links, function (link) {
+      var url = new URL(link.href, location.href);
+      if (url.origin !== location.origin || paths.indexOf(url.pathname) === -1) return;
+      matched = true;
+      url.searchParams.set('livereload', Date.now());
+      var next = link.cloneNode();
+      next.href = url.href;
+      next.onload = function () { link.remove(); };
+      link.parentNode.insertBefore(next, link.nextSibling);
+    });
+    if (!matched) location.reload();
+  }
+
+  var source = new EventSource('${LIVE_RELOAD_PATH}');
+  source.addEventListener('reload', function () {
+    location.reload();
+  });
+  source.addEventListener('css', function (event) {
+    refreshStylesheets(JSON.parse(event.data).paths);
+  });
+})();
+`;
+
+// 在 </body> 之前注入脚本，没有 </body> 时追加到末尾
+export function injectLiveReload(html: Buffer): Buffer {
+  const content = html.toString('utf-8');
+  const index = content.toLowerCase().lastIndexOf('</body>');
+  const injected = index === -1
+    ? content + LIVE_RELOAD_SNIPPET
+    : content.slice(0, index) + LIVE_RELOAD_SNIPPET + content.slice(index);
+  return Buffer.from(injected, 'utf-8');
+}
+
+export class LiveReloadServer {
+  private clients = new Set<ServerResponse>();
+  private pendingPaths = new Set<string>();
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private rootDir: string;
+  private logger: Logger;
+  private delay: number;
+
+  constructor(rootDir: string, logger: Logger, delay: number = 100) {
+    this.rootDir = path.resolve(rootDir);
+    this.logger = logger;
+    this.delay = delay;
+  }
+
+  public isLiveReloadRequest(pathname: string): boolean {
+    return pathname === LIVE_RELOAD_PATH || pathname === LIVE_RELOAD_SCRIPT_PATH;
+  }
+
+  public handleRequest(req: IncomingMessage, res: ServerResponse, pathname: string): void {
+    if (pathname === LIVE_RELOAD_SCRIPT_PATH) {
+      res.writeHead(200, {
+        'Content-Type': 'application/javascript; charset=utf-8',
+        'Content-Length': Buffer.byteLength(CLIENT_SCRIPT),
+        'Cache-Control': 'no-cache'
+      });
+      res.end(CLIENT_SCRIPT);
+      return;
+    }
+
+    // Server-Sent Events 连接
+    openEventStream(req, res);
+
+    this.clients.add(res);
+    if (!this.heartbeatTimer) {
+      this.heartbeatTimer = startHeartbeat(() => this.clients);
+    }
+    this.logger.debug(`Live reload client connected (${this.clients.size} total)`);
+
+    req.on('close', () => {
+      this.clients.delete(res);
+      this.logger.debug(`Live reload client disconnected (${this.clients.size} total)`);
+    });
+  }
+
+  // 记录变化的文件，在一段时间内没有新事件后统一通知浏览器
+  public notify(filePath: string): void {
+    this.pendingPaths.add(filePath);
+
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      this.flush();
+    }, this.delay);
+  }
+
+  private flush(): void {
+    const paths = Array.from(this.pendingPaths).map(filePath => this.toUrlPath(filePath));
+    this.pendingPaths.clear();
+
+    if (paths.length === 0 || this.clients.size === 0) {
+      return;
+    }
+
+    // 只有样式表变化时热替换，其余情况整页刷新
+    if (paths.every(urlPath => urlPath.endsWith('.css'))) {
+      this.logger.info(`🎨 Hot-swapping stylesheets: ${paths.join(', ')}`);
+      this.broadcast('css', { paths });
+    } else {
+      this.logger.info(`🔄 Reloading ${this.clients.size} browser(s)`);
+      this.broadcast('reload', { paths });
+    }
+  }
+
+  private broadcast(event: string, data: object): void {
+    const message = formatEvent(event, data);
+    for (const client of this.clients) {
+      client.write(message);
+    }
+  }
+
+  private toUrlPath(filePath: string): string {
+    const relativePath = path.relative(this.rootDir, path.resolve(filePath));
+    return '/' + relativePath.split(path.sep).join('/');
+  }
+
+  public close(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+
+    for (const client of this.clients) {
+      client.end();
+    }
+    this.clients.clear();
+  }
+}
@@ -0,0 +1,240 @@
+import http, { IncomingMessage, ServerResponse, IncomingHttpHeaders, OutgoingHttpHeaders } from 'http';
+import https from 'https';
+import { TLSSocket } from 'tls';
+import { Duplex } from 'stream';
+import { Logger, ProxyRule } from '../types';
+import { isGlob, matchGlob } from '../utils/glob';
+
+// 逐跳头部不应转发
+const HOP_BY_HOP_HEADERS = [
+  'connection',
+  'keep-alive',
+  'proxy-authenticate',
+  'proxy-authorization',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade'
+];
+
+const DEFAULT_TIMEOUT = 30000;
+
+// 应用头部改写：值为 null 时删除该头部
+function rewriteHeaders<T extends IncomingHttpHeaders | OutgoingHttpHeaders>(
+  headers: T,
+  rewrites: Record<string, string | null> | undefined
+): T {
+  if (!rewrites) {
+    return headers;
+  }
+
+  for (const [name, value] of Object.entries(rewrites)) {
+    const key = name.toLowerCase();
+    if (value === null) {
+      delete headers[key];
+    } else {
+      (headers as Record<string, string>)[key] = value;
+    }
+  }
+  return headers;
+}
+
+export class ProxyHandler {
+  private rules: ProxyRule[];
+  private logger: Logger;
+
+  constructor(rules: ProxyRule[], logger: Logger) {
+    this.rules = rules;
+    this.logger = logger;
+  }
+
+  // 路径前缀（如 /api）或 glob（如 /api/**/*.json），第一条命中的规则生效
+  public match(pathname: string): ProxyRule | null {
+    for (const rule of this.rules) {
+      if (isGlob(rule.context)) {
+        if (matchGlob(pathname, rule.context)) {
+          return rule;
+        }
+      } else if (pathname === rule.context || pathname.startsWith(rule.context.replace(/\/?$/, '/'))) {
+        return rule;
+      }
+    }
+    return null;
+  }
+
+  private buildTargetUrl(rule: ProxyRule, requestUrl: string): URL {
+    const incoming = new URL(requestUrl, 'http://localhost');
+    let pathname = incoming.pathname;
+
+    if (rule.pathRewrite) {
+      for (const [pattern, replacement] of Object.entries(rule.pathRewrite)) {
+        const regex = new RegExp(pattern);
+        if (regex.test(pathname)) {
+          pathname = pathname.replace(regex, replacement);
+          break;
+        }
+      }
+    }
+
+    const target = new URL(rule.target);
+    const basePath = target.pathname.replace(/\/$/, '');
+    target.pathname = basePath + (pathname.startsWith('/') ? pathname : '/' + pathname);
+    target.search = incoming.search;
+    return target;
+  }
+
+  private buildRequestHeaders(req: IncomingMessage, rule: ProxyRule, target: URL, keepUpgrade: boolean): OutgoingHttpHeaders {
+    const headers: OutgoingHttpHeaders = {};
+    const host = req.headers.host || (req.headers[':authority'] as string | undefined) || '';
+
+    // HTTP/2 请求中的伪头部（:method、:path 等）不能转发给 HTTP/1.1 上游
+    for (const [name, value] of Object.entries(req.headers)) {
+      if (!name.startsWith(':')) {
+        headers[name] = value;
+      }
+    }
+    headers.host = host;
+
+    if (!keepUpgrade) {
+      for (const name of HOP_BY_HOP_HEADERS) {
+        delete headers[name];
+      }
+    }
+
+    const remoteAddress = req.socket.remoteAddress || '';
+    const forwardedFor = req.headers['x-forwarded-for'];
+    headers['x-forwarded-for'] = forwardedFor ? `${forwardedFor}, ${remoteAddress}` : remoteAddress;
+    headers['x-forwarded-host'] = host;
+    headers['x-forwarded-proto'] = req.socket instanceof TLSSocket ? 'https' : 'http';
+
+    if (rule.changeOrigin) {
+      headers.host = target.host;
+      if (headers.origin) {
+        headers.origin = target.origin;
+      }
+    }
+
+    return rewriteHeaders(headers, rule.headers);
+  }
+
+  private createRequest(target: URL, options: http.RequestOptions): http.ClientRequest {
+    const transport = target.protocol === 'https:' ? https : http;
+    return transport.request(target, options);
+  }
+
+  public handleRequest(req: IncomingMessage, res: ServerResponse, rule: ProxyRule): Promise<void> {
+    const target = this.buildTargetUrl(rule, req.url || '/');
+    const timeout = rule.timeout ?? DEFAULT_TIMEOUT;
+
+    this.logger.debug(`Proxy ${req.method} ${req.url} -> ${target.href}`);
+
+    return new Promise((resolve) => {
+      const proxyReq = this.createRequest(target, {
+        method: req.method,
+        headers: this.buildRequestHeaders(req, rule, target, false)
+      });
+
+      proxyReq.setTimeout(timeout, () => {
+        proxyReq.destroy(Object.assign(new Error(`Upstream timed out after ${timeout}ms`), { code: 'ETIMEDOUT' }));
+      });
+
+      proxyReq.on('response', (proxyRes) => {
+        const headers: OutgoingHttpHeaders = { ...proxyRes.headers };
+        for (const name of HOP_BY_HOP_HEADERS) {
+          delete headers[name];
+        }
+
+        // HTTP/2 没有状态描述，只在 HTTP/1.x 下透传
+        const statusMessage = req.httpVersionMajor < 2 ? proxyRes.statusMessage : undefined;
+        res.writeHead(proxyRes.statusCode || 502, statusMessage, rewriteHeaders(headers, rule.responseHeaders));
+        proxyRes.pipe(res);
+        proxyRes.on('end', resolve);
+        proxyRes.on('error', () => {
+          res.destroy();
+          resolve();
+        });
+      });
+
+      proxyReq.on('error', (error: NodeJS.ErrnoException) => {
+        this.logger.warn(`Proxy error for ${req.url} -> ${target.href}: ${error.message}`);
+
+        if (res.headersSent) {
+          res.destroy();
+        } else {
+          const status = error.code === 'ETIMEDOUT' ? 504 : 502;
+          res.writeHead(status, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({
+            error: status === 504 ? 'Gateway timeout' : 'Bad gateway',
+            target: target.origin,
+            message: error.message
+          }));
+        }
+        resolve();
+      });
+
+      // 客户端断开时中止上游请求
+      res.on('close', () => {
+        if (!res.writableFinished) {
+          proxyReq.destroy();
+        }
+      });
+
+      req.pipe(proxyReq);
+    });
+  }
+
+  // WebSocket 升级请求直接在 socket 层双向转发
+  public handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): boolean {
+    const rule = this.match(new URL(req.url || '/', 'http://localhost').pathname);
+    if (!rule || !rule.ws) {
+      return false;
+    }
+
+    const target = this.buildTargetUrl(rule, req.url || '/');
+    this.logger.debug(`Proxy WebSocket ${req.url} -> ${target.href}`);
+
+    const proxyReq = this.createRequest(target, {
+      method: req.method,
+      headers: this.buildRequestHeaders(req, rule, target, true)
+    });
+
+    proxyReq.on('upgrade', (proxyRes, proxySocket, proxyHead) => {
+      const lines = [`HTTP/1.1 ${proxyRes.statusCode} ${proxyRes.statusMessage}`];
+      const headers = rewriteHeaders({ ...proxyRes.headers }, rule.responseHeaders);
+      for (const [name, value] of Object.entries(headers)) {
+        for (const item of Array.isArray(value) ? value : [value]) {
+          if (item !== undefined) {
+            lines.push(`${name}: ${item}`);
+          }
+        }
+      }
+      socket.write(lines.join('\r\n') + '\r\n\r\n');
+
+      if (proxyHead.length > 0) {
+        socket.write(proxyHead);
+      }
+      if (head.length > 0) {
+        proxySocket.write(head);
+      }
+
+      proxySocket.on('error', () => socket.destroy());
+      socket.on('error', () => proxySocket.destroy());
+      proxySocket.pipe(socket).pipe(proxySocket);
+    });
+
+    // 上游拒绝升级时把普通响应转发给客户端
+    proxyReq.on('response', (proxyRes) => {
+      socket.write(`HTTP/1.1 ${proxyRes.statusCode} ${proxyRes.statusMessage}\r\nConnection: close\r\n\r\n`);
+      proxyRes.resume();
+      socket.end();
+    });
+
+    proxyReq.on('error', (error) => {
+      this.logger.warn(`WebSocket proxy error for ${req.url} -> ${target.href}: ${error.message}`);
+      socket.end('HTTP/1.1 502 Bad Gateway\r\nConnection: close\r\n\r\n');
+    });
+
+    proxyReq.end();
+    return true;
+  }
+}
@@ -0,0 +1,200 @@
+import http, { Server } from 'http';
+import { AddressInfo } from 'net';
+import fs, { mkdirSync, mkdtempSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { StaticFileHandler } from './static';
+import { createLogger } from '../utils/logger';
+import { request as send, TestResponse } from '../test/http';
+
+const CONTENT = Buffer.from('0123456789abcdefghijklmnopqrstuvwxyz');
+
+let rootDir: string;
+let server: Server;
+let port: number;
+
+function request(path: string, headers: Record<string, string> = {}): Promise<TestResponse> {
+  return send(port, path, { headers });
+}
+
+beforeAll(async () => {
+  rootDir = mkdtempSync(join(tmpdir(), 'static-test-'));
+  writeFileSync(join(rootDir, 'data.txt'), CONTENT);
+
+  // 目录列表测试用的文件：一个带 .gz sidecar，一个没有
+  mkdirSync(join(rootDir, 'listing'));
+  writeFileSync(join(rootDir, 'listing', 'plain.txt'), 'plain '.repeat(1000));
+  writeFileSync(join(rootDir, 'listing', 'packed.txt'), 'packed '.repeat(1000));
+  writeFileSync(join(rootDir, 'listing', 'packed.txt.gz'), Buffer.alloc(42));
+  const future = new Date(Date.now() + 60000);
+  utimesSync(join(rootDir, 'listing', 'packed.txt.gz'), future, future);
+
+  const handler = new StaticFileHandler(
+    rootDir,
+    1024 * 1024,
+    'index.html',
+    { directoryListing: true, gzipThreshold: 0 },
+    createLogger('error')
+  );
+  server = http.createServer((req, res) => {
+    handler.handleRequest(req, res);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  port = (server.address() as AddressInfo).port;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+  rmSync(rootDir, { recursive: true, force: true });
+});
+
+describe('Range requests', () => {
+  it('returns 206 with Content-Range for a single range', async () => {
+    const res = await request('/data.txt', { Range: 'bytes=10-15' });
+    expect(res.status).toBe(206);
+    expect(res.headers['content-range']).toBe(`bytes 10-15/${CONTENT.length}`);
+    expect(res.headers['content-length']).toBe('6');
+    expect(res.body.toString()).toBe('abcdef');
+  });
+
+  it('returns multipart/byteranges with a correct Content-Length for several ranges', async () => {
+    const res = await request('/data.txt', { Range: 'bytes=0-1,-2' });
+    expect(res.status).toBe(206);
+
+    const match = /^multipart\/byteranges; boundary=(\S+)$/.exec(res.headers['content-type'] || '');
+    expect(match).not.toBeNull();
+    const boundary = match![1];
+    expect(Number(res.headers['content-length'])).toBe(res.body.length);
+    expect(res.body.toString()).toBe(
+      `--${boundary}\r\nContent-Type: text/plain\r\nContent-Range: bytes 0-1/${CONTENT.length}\r\n\r\n01\r\n` +
+      `--${boundary}\r\nContent-Type: text/plain\r\nContent-Range: bytes 34-35/${CONTENT.length}\r\n\r\nyz\r\n` +
+      `--${boundary}--\r\n`
+    );
+  });
+
+  it('returns 416 with the complete length for unsatisfiable ranges', async () => {
+    const res = await request('/data.txt', { Range: `bytes=${CONTENT.length}-` });
+    expect(res.status).toBe(416);
+    expect(res.headers['content-range']).toBe(`bytes */${CONTENT.length}`);
+  });
+
+  it('ignores malformed Range headers', async () => {
+    const res = await request('/data.txt', { Range: 'bytes=5-1' });
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual(CONTENT);
+  });
+
+  it('honours If-Range only when the validator matches', async () => {
+    const { headers } = await request('/data.txt');
+    const etag = headers.etag as string;
+
+    const fresh = await request('/data.txt', { Range: 'bytes=0-0', 'If-Range': etag });
+    expect(fresh.status).toBe(206);
+
+    const stale = await request('/data.txt', { Range: 'bytes=0-0', 'If-Range': '"stale"' });
+    expect(stale.status).toBe(200);
+    expect(stale.body).toEqual(CONTENT);
+  });
+});
+
+describe('Directory listings', () => {
+  async function listingSizes(): Promise<Record<string, number | null>> {
+    const res = await request('/listing/', { Accept: 'application/json' });
+    expect(res.status).toBe(200);
+    const listing = JSON.parse(res.body.toString()) as { entries: Array<{ name: string; gzipSize: number | null }> };
+    return Object.fromEntries(listing.entries.map(entry => [entry.name, entry.gzipSize]));
+  }
+
+  it('reports sidecar sizes without compressing uncached files', async () => {
+    const sizes = await listingSizes();
+    expect(sizes['packed.txt']).toBe(42);
+    expect(sizes['plain.txt']).toBeNull();
+  });
+
+  it('reports the cached gzip size once the file has been served compressed', async () => {
+    const res = await request('/listing/plain.txt', { 'Accept-Encoding': 'gzip' });
+    expect(res.headers['content-encoding']).toBe('gzip');
+
+    const sizes = await listingSizes();
+    expect(sizes['plain.txt']).toBe(res.body.length);
+  });
+
+  it('redirects directories without a trailing slash to a path on this host', async () => {
+    const plain = await request('/listing?sort=name');
+    expect(plain.status).toBe(301);
+    expect(plain.headers.location).toBe('/listing/?sort=name');
+
+    // //listing/ 会被浏览器当作主机 listing
+    for (const path of ['//listing', '///listing', '/\\listing']) {
+      const res = await request(path);
+      expect(res.status).toBe(301);
+      expect(res.headers.location).toBe('/listing/');
+    }
+  });
+});
+
+describe('Conditional requests', () => {
+  it('returns 304 for a matching If-None-Match and keeps the ETag', async () => {
+    const { headers } = await request('/data.txt');
+    const res = await request('/data.txt', { 'If-None-Match': headers.etag as string });
+    expect(res.status).toBe(304);
+    expect(res.headers.etag).toBe(headers.etag);
+    expect(res.body.length).toBe(0);
+  });
+
+  it('uses a separate ETag for each encoding', async () => {
+    const identity = await request('/listing/plain.txt');
+    const gzip = await request('/listing/plain.txt', { 'Accept-Encoding': 'gzip' });
+    expect(gzip.headers.etag).not.toBe(identity.headers.etag);
+
+    const revalidated = await request('/listing/plain.txt', {
+      'Accept-Encoding': 'gzip',
+      'If-None-Match': identity.headers.etag as string
+    });
+    expect(revalidated.status).toBe(200);
+  });
+
+  it('returns 412 when If-Match does not match', async () => {
+    const res = await request('/data.txt', { 'If-Match': '"other"' });
+    expect(res.status).toBe(412);
+  });
+});
+
+describe('Content ETags', () => {
+  let contentServer: Server;
+  let contentPort: number;
+
+  beforeAll(async () => {
+    // 不缓存文件内容，ETag 只能来自内容哈希缓存
+    const handler = new StaticFileHandler(rootDir, 0, 'index.html', { etag: 'content' }, createLogger('error'));
+    contentServer = http.createServer((req, res) => {
+      handler.handleRequest(req, res);
+    });
+    await new Promise<void>(resolve => contentServer.listen(0, '127.0.0.1', resolve));
+    contentPort = (contentServer.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await new Promise(resolve => contentServer.close(resolve));
+  });
+
+  it('hashes a file once until its size or modification time changes', async () => {
+    const filePath = join(rootDir, 'hashed.txt');
+    writeFileSync(filePath, 'first version');
+    const readFileSync = jest.spyOn(fs, 'readFileSync');
+    const reads = () => readFileSync.mock.calls.filter(([path]) => path === filePath).length;
+
+    const first = await send(contentPort, '/hashed.txt');
+    const readsAfterFirst = reads();
+    expect(readsAfterFirst).toBeGreaterThan(0);
+    const second = await send(contentPort, '/hashed.txt', { headers: { 'If-None-Match': first.headers.etag as string } });
+    expect(second.status).toBe(304);
+    expect(reads()).toBe(readsAfterFirst);
+
+    writeFileSync(filePath, 'second, longer version');
+    const changed = await send(contentPort, '/hashed.txt');
+    expect(changed.body.toString()).toBe('second, longer version');
+    expect(changed.headers.etag).not.toBe(first.headers.etag);
+  });
+});
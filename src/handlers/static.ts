@@ -2,20 +2,121 @@ import fs from 'fs';
 import path from 'path';
 import { IncomingMessage, ServerResponse } from 'http';
 import url from 'url';
-import { FileInfo } from '../types';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+  CompressionEncoding,
+  CompressionResult,
+  ContentEncoding,
+  DirectoryEntry,
+  DirectoryListing,
+  FileInfo,
+  Logger,
+  StaticFileOptions
+} from '../types';
 import { getMimeType } from '../utils/mime';
-import { MemoryCache } from '../utils/cache';
-import { compressIfNeeded, setCompressionHeaders, shouldServeCompressed } from './gzip';
+import { resolveWithin } from '../utils/paths';
+import { MemoryCache, generateContentETag } from '../utils/cache';
+import { encodingETag, evaluatePreconditions, isRangeFresh } from '../utils/conditional';
+import { ResolvedCacheControl, describeRule, resolveCacheControl } from '../utils/cache-control';
+import { createLogger } from '../utils/logger';
+import { matchAnyGlob } from '../utils/glob';
+import { localRedirectPath, resolveRewrite } from '../utils/rewrite';
+import { appendVary } from '../utils/vary';
+import {
+  ByteRange,
+  RANGE_UNSATISFIABLE,
+  formatContentRange,
+  generateBoundary,
+  multipartHeader,
+  multipartTrailer,
+  parseRange
+} from '../utils/range';
+import {
+  compressBuffer,
+  createCompressionStream,
+  defaultCompressionOptions,
+  isEncodingSupported,
+  negotiateEncoding,
+  setCompressionHeaders,
+  sidecarExtensions
+} from './gzip';
+import { sendDirectoryListing, sortEntries } from './directory';
+import { injectLiveReload } from './livereload';
+
+interface PrecompressedFile {
+  path: string;
+  size: number;
+  encoding: CompressionEncoding;
+}
+
+const defaultStaticFileOptions: StaticFileOptions = {
+  ...defaultCompressionOptions,
+  gzip: true,
+  gzipThreshold: 1024,
+  encodings: ['br', 'zstd', 'gzip'],
+  precompressed: false,
+  streamThreshold: 10 * 1024 * 1024,
+  directoryListing: false,
+  liveReload: false,
+  etag: 'mtime',
+  cacheHeaders: true,
+  cacheMaxAge: 3600,
+  cacheControl: [],
+  rewrites: [],
+  trailingSlash: 'ignore',
+  cleanUrls: false,
+  spaFallback: {
+    enabled: false,
+    globs: []
+  }
+};
+
+// 将可读流写入响应但不结束响应（用于 multipart 分段），pipe 负责背压
+function pipeWithoutEnd(source: Readable, res: ServerResponse): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onClose = () => {
+      source.destroy();
+      reject(new Error('Response closed before range was sent'));
+    };
+
+    res.once('close', onClose);
+    source.once('error', (error) => {
+      res.off('close', onClose);
+      reject(error);
+    });
+    source.once('end', () => {
+      res.off('close', onClose);
+      resolve();
+    });
+    source.pipe(res, { end: false });
+  });
+}
+
+// 内容哈希 ETag 缓存的最大条目数，超过时淘汰最早加入的条目
+const CONTENT_ETAG_CACHE_SIZE = 10000;
 
 export class StaticFileHandler {
   private cache: MemoryCache;
+  // 内容哈希 ETag，以修改时间和大小判断是否过期，避免每次 getFileInfo 都重新读取并哈希整个文件
+  private contentETags = new Map<string, { mtimeMs: number; size: number; etag: string }>();
   private rootDir: string;
   private indexPath: string;
-
-  constructor(rootDir: string, cacheSize: number = 100 * 1024 * 1024, indexPath: string = 'index.html') {
+  private options: StaticFileOptions;
+  private logger: Logger;
+
+  constructor(
+    rootDir: string,
+    cacheSize: number = 100 * 1024 * 1024,
+    indexPath: string = 'index.html',
+    options: Partial<StaticFileOptions> = {},
+    logger: Logger = createLogger()
+  ) {
     this.rootDir = path.resolve(rootDir);
     this.cache = new MemoryCache(cacheSize);
     this.indexPath = indexPath;
+    this.options = { ...defaultStaticFileOptions, ...options };
+    this.logger = logger;
   }
 
   private sanitizePath(requestPath: string): string {
@@ -23,11 +124,6 @@ export class StaticFileHandler {
     const parsedUrl = url.parse(requestPath, true);
     let pathname = parsedUrl.pathname || '/';
 
-    // 标准化路径
-    if (pathname === '/') {
-      pathname = '/' + this.indexPath;
-    }
-
     // 移除查询参数
     pathname = pathname.split('?')[0];
 
@@ -42,18 +138,20 @@ export class StaticFileHandler {
     return pathname;
   }
 
+  // 安全检查：确保路径在根目录内，越界时返回 null
+  private resolvePath(filePath: string): string | null {
+    return resolveWithin(this.rootDir, filePath);
+  }
+
   private getFileInfo(filePath: string): FileInfo | null {
     try {
-      const fullPath = path.join(this.rootDir, filePath);
-      const stat = fs.statSync(fullPath);
-
-      if (!stat.isFile()) {
+      const fullPath = this.resolvePath(filePath);
+      if (!fullPath) {
         return null;
       }
 
-      // 安全检查：确保文件在根目录内
-      const relativePath = path.relative(this.rootDir, fullPath);
-      if (relativePath.startsWith('..')) {
+      const stat = fs.statSync(fullPath);
+      if (!stat.isFile()) {
         return null;
       }
 
@@ -64,20 +162,53 @@ export class StaticFileHandler {
         path: fullPath,
         size: stat.size,
         mtime: stat.mtime,
-        etag: this.generateETag(stat),
+        etag: this.generateETag(fullPath, stat),
         mimeType,
-        shouldCompress
+        shouldCompress,
+        cacheControl: this.resolveCacheControl(filePath).value
       };
     } catch (error) {
       return null;
     }
   }
 
-  private generateETag(stat: fs.Stats): string {
+  private getDirectoryPath(filePath: string): string | null {
+    try {
+      const fullPath = this.resolvePath(filePath);
+      return fullPath && fs.statSync(fullPath).isDirectory() ? fullPath : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private generateETag(fullPath: string, stat: fs.Stats): string {
+    // 内容哈希 ETag 需要读取整个文件，超过流式阈值的大文件仍使用 mtime 策略
+    if (this.options.etag === 'content' && stat.size <= this.options.streamThreshold) {
+      const cached = this.contentETags.get(fullPath);
+      if (cached && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size) {
+        return cached.etag;
+      }
+
+      const etag = generateContentETag(fs.readFileSync(fullPath));
+      this.contentETags.delete(fullPath);
+      if (this.contentETags.size >= CONTENT_ETAG_CACHE_SIZE) {
+        const oldest = this.contentETags.keys().next().value;
+        if (oldest !== undefined) {
+          this.contentETags.delete(oldest);
+        }
+      }
+      this.contentETags.set(fullPath, { mtimeMs: stat.mtimeMs, size: stat.size, etag });
+      return etag;
+    }
+
     return `"${stat.size}-${stat.mtime.getTime()}"`;
   }
 
   private shouldCompressFile(mimeType: string, size: number): boolean {
+    if (!this.options.gzip) {
+      return false;
+    }
+
     const compressibleTypes = [
       'text/',
       'application/javascript',
@@ -106,7 +237,7 @@ export class StaticFileHandler {
 
     // 检查是否为可压缩类型且大小合适
     for (const type of compressibleTypes) {
-      if (mimeType.startsWith(type) && size > 1024) { // 只压缩大于 1KB 的文件
+      if (mimeType.startsWith(type) && size > this.options.gzipThreshold) { // 只压缩超过阈值的文件
         return true;
       }
     }
@@ -114,7 +245,43 @@ export class StaticFileHandler {
     return false;
   }
 
+  private setFileHeaders(
+    res: ServerResponse,
+    fileInfo: FileInfo,
+    compressionResult: Omit<CompressionResult, 'content'> | null
+  ): void {
+    setCompressionHeaders(
+      res,
+      compressionResult,
+      fileInfo.etag,
+      fileInfo.mtime.toUTCString(),
+      fileInfo.mimeType,
+      fileInfo.cacheControl
+    );
+
+    // 关闭缓存头部时不发送任何校验器，浏览器也不会启发式缓存
+    if (!this.options.cacheHeaders) {
+      res.removeHeader('Cache-Control');
+      res.removeHeader('ETag');
+      res.removeHeader('Last-Modified');
+    }
+  }
+
+  private resolveCacheControl(filePath: string): ResolvedCacheControl {
+    return resolveCacheControl(
+      '/' + filePath.replace(/^\/+/, ''),
+      this.options.cacheControl,
+      `public, max-age=${this.options.cacheMaxAge}`
+    );
+  }
+
   private sendError(res: ServerResponse, statusCode: number, message: string): void {
+    // 流式发送过程中出错时响应头已发出，只能中断连接
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
+
     res.writeHead(statusCode, { 'Content-Type': 'text/plain' });
     res.end(message);
   }
@@ -122,7 +289,8 @@ export class StaticFileHandler {
   private async handleFileRequest(
     req: IncomingMessage,
     res: ServerResponse,
-    filePath: string
+    filePath: string,
+    isFallback: boolean = false
   ): Promise<void> {
     try {
       const fileInfo = this.getFileInfo(filePath);
@@ -131,67 +299,125 @@ export class StaticFileHandler {
         return;
       }
 
-      // 检查缓存
-      const cacheEntry = this.cache.get(fileInfo.path);
-      let content: Buffer;
-      let compressed: Buffer | undefined;
-
-      if (cacheEntry && !this.cache.isModified(fileInfo.path, fileInfo.mtime.getTime())) {
-        // 缓存命中
-        content = cacheEntry.content;
-        compressed = cacheEntry.compressed;
-      } else {
-        // 缓存未命中，读取文件
-        content = fs.readFileSync(fileInfo.path);
-
-        // 如果需要压缩，进行压缩
-        if (fileInfo.shouldCompress) {
-          try {
-            compressed = await this.compressContent(content);
-          } catch (error) {
-            console.warn('Compression failed:', error);
-          }
+      // 回退返回的首页必须每次重新验证，避免部署后继续使用旧的入口文件
+      if (isFallback) {
+        fileInfo.cacheControl = 'no-cache';
+        this.logger.debug(`Cache-Control /${filePath}: no-cache (spa fallback)`);
+      } else if (this.options.cacheHeaders) {
+        const { rule } = this.resolveCacheControl(filePath);
+        this.logger.debug(`Cache-Control /${filePath}: ${fileInfo.cacheControl} (${describeRule(rule)})`);
+      }
+
+      // 注入实时刷新脚本后内容与磁盘文件不同，只能走内存缓存路径
+      const injectLiveReload = this.shouldInjectLiveReload(fileInfo);
+      const baseETag = injectLiveReload ? encodingETag(fileInfo.etag, 'lr') : fileInfo.etag;
+
+      // 响应内容随 Accept-Encoding 变化
+      appendVary(res, 'Accept-Encoding');
+      res.setHeader('Accept-Ranges', 'bytes');
+
+      // Range 请求始终针对未编码的原始内容
+      const rangeHeader = req.headers.range;
+      const useRanges = rangeHeader !== undefined && req.method === 'GET' && !injectLiveReload;
+
+      // 选择要发送的表示：预压缩文件、动态压缩或原始内容
+      let sidecar: PrecompressedFile | null = null;
+      let encoding: ContentEncoding | null = 'identity';
+
+      if (!useRanges) {
+        // 优先使用构建产物中预压缩的 sidecar 文件
+        if (this.options.precompressed && !injectLiveReload) {
+          sidecar = this.findPrecompressed(req, fileInfo);
         }
 
-        // 更新缓存
-        this.cache.set(fileInfo.path, content, fileInfo.mimeType, compressed);
+        // 协商内容编码
+        if (sidecar) {
+          encoding = sidecar.encoding;
+        } else if (fileInfo.shouldCompress) {
+          encoding = negotiateEncoding(req, this.options.encodings.filter(isEncodingSupported));
+        }
       }
 
-      // 检查 ETag 匹配
-      const ifNoneMatch = req.headers['if-none-match'];
-      if (ifNoneMatch && ifNoneMatch === fileInfo.etag) {
-        res.writeHead(304);
-        res.end();
+      if (encoding === null) {
+        this.sendError(res, 406, 'Not Acceptable');
         return;
       }
 
-      // 检查 Last-Modified
-      const ifModifiedSince = req.headers['if-modified-since'];
-      if (ifModifiedSince && ifModifiedSince === fileInfo.mtime.toUTCString()) {
+      // 每种编码的表示使用独立的 ETag
+      const representation: FileInfo = {
+        ...fileInfo,
+        etag: encoding === 'identity' ? baseETag : encodingETag(baseETag, encoding)
+      };
+
+      // 计算条件请求的前置条件（关闭缓存头部时客户端没有校验器，直接忽略）
+      const precondition = this.options.cacheHeaders
+        ? evaluatePreconditions(req, { etag: representation.etag, lastModified: fileInfo.mtime })
+        : 'proceed';
+
+      if (precondition === 'not-modified') {
+        res.setHeader('ETag', representation.etag);
+        res.setHeader('Last-Modified', fileInfo.mtime.toUTCString());
+        res.setHeader('Cache-Control', fileInfo.cacheControl);
         res.writeHead(304);
         res.end();
         return;
       }
 
-      // 决定是否发送压缩内容
-      const compressionResult = compressed ? {
-        content: compressed,
-        originalSize: content.length,
-        compressedSize: compressed.length,
-        encoding: 'gzip'
-      } : null;
+      if (precondition === 'precondition-failed') {
+        this.sendError(res, 412, 'Precondition Failed');
+        return;
+      }
+
+      if (useRanges && rangeHeader && isRangeFresh(req, { etag: representation.etag, lastModified: fileInfo.mtime })) {
+        const ranges = parseRange(fileInfo.size, rangeHeader);
+
+        if (ranges === RANGE_UNSATISFIABLE) {
+          res.setHeader('Content-Range', `bytes */${fileInfo.size}`);
+          this.sendError(res, 416, 'Range Not Satisfiable');
+          return;
+        }
+
+        // 格式错误的 Range 头部被忽略，继续返回完整内容
+        if (Array.isArray(ranges)) {
+          await this.sendRanges(res, representation, ranges);
+          return;
+        }
+      }
+
+      if (sidecar) {
+        await this.sendPrecompressed(req, res, representation, sidecar);
+        return;
+      }
+
+      // 大文件不进入内存缓存，直接流式发送
+      if (this.shouldStream(fileInfo) && !injectLiveReload) {
+        await this.streamFile(req, res, representation, encoding);
+        return;
+      }
+
+      const content = this.readContent(fileInfo);
+
+      // 获取（或生成并缓存）对应编码的压缩版本
+      let compressionResult: CompressionResult | null = null;
+      if (encoding !== 'identity') {
+        const compressed = await this.getEncodedVariant(fileInfo.path, content, encoding);
+        if (compressed) {
+          compressionResult = {
+            content: compressed,
+            originalSize: content.length,
+            compressedSize: compressed.length,
+            encoding
+          };
+        } else {
+          // 压缩失败时退回原始内容及其 ETag
+          representation.etag = baseETag;
+        }
+      }
 
-      const shouldSendCompressed = shouldServeCompressed(req, compressionResult);
-      const finalContent = shouldSendCompressed && compressed ? compressed : content;
+      const finalContent = compressionResult ? compressionResult.content : content;
 
       // 设置响应头
-      setCompressionHeaders(
-        res,
-        compressionResult,
-        fileInfo.etag,
-        fileInfo.mtime.toUTCString(),
-        fileInfo.mimeType
-      );
+      this.setFileHeaders(res, representation, compressionResult);
 
       // 设置正确的内容长度
       res.setHeader('Content-Length', finalContent.length);
@@ -201,36 +427,424 @@ export class StaticFileHandler {
       res.end(finalContent);
 
     } catch (error) {
+      // 客户端在流式传输过程中断开连接，不视为服务器错误
+      if ((error as NodeJS.ErrnoException).code === 'ERR_STREAM_PREMATURE_CLOSE') {
+        res.destroy();
+        return;
+      }
+
       console.error('Error serving file:', error);
       this.sendError(res, 500, 'Internal server error');
     }
   }
 
-  private async compressContent(content: Buffer): Promise<Buffer> {
-    return new Promise((resolve, reject) => {
-      const zlib = require('zlib');
-      zlib.gzip(content, { level: 6 }, (err: Error | null, result: Buffer) => {
-        if (err) {
-          reject(err);
-        } else {
-          resolve(result);
+  private readContent(fileInfo: FileInfo): Buffer {
+    // 检查缓存
+    const cacheEntry = this.cache.get(fileInfo.path);
+    if (cacheEntry && !this.cache.isModified(fileInfo.path, fileInfo.mtime.getTime())) {
+      // 缓存命中
+      return cacheEntry.content;
+    }
+
+    // 缓存未命中，读取文件并更新缓存
+    let content: Buffer = fs.readFileSync(fileInfo.path);
+    if (this.shouldInjectLiveReload(fileInfo)) {
+      content = injectLiveReload(content);
+    }
+    this.cache.set(fileInfo.path, content, fileInfo.mimeType, fileInfo.etag);
+    return content;
+  }
+
+  private async sendRanges(res: ServerResponse, fileInfo: FileInfo, ranges: ByteRange[]): Promise<void> {
+    const content = this.shouldStream(fileInfo) ? null : this.readContent(fileInfo);
+
+    this.setFileHeaders(res, fileInfo, null);
+
+    if (ranges.length === 1) {
+      const [range] = ranges;
+
+      res.setHeader('Content-Range', formatContentRange(range, fileInfo.size));
+      res.setHeader('Content-Length', range.end - range.start + 1);
+      res.writeHead(206);
+      await this.writeRange(res, fileInfo, content, range);
+      res.end();
+      return;
+    }
+
+    // 多个范围使用 multipart/byteranges，逐段写入
+    const boundary = generateBoundary();
+    const headers = ranges.map(range => multipartHeader(boundary, fileInfo.mimeType, range, fileInfo.size));
+    const trailer = multipartTrailer(boundary);
+    const contentLength = ranges.reduce(
+      (total, range, index) => total + Buffer.byteLength(headers[index]) + (range.end - range.start + 1) + 2,
+      Buffer.byteLength(trailer)
+    );
+
+    res.setHeader('Content-Type', `multipart/byteranges; boundary=${boundary}`);
+    res.setHeader('Content-Length', contentLength);
+    res.writeHead(206);
+
+    for (let i = 0; i < ranges.length; i++) {
+      res.write(headers[i]);
+      await this.writeRange(res, fileInfo, content, ranges[i]);
+      res.write('\r\n');
+    }
+    res.end(trailer);
+  }
+
+  private async writeRange(
+    res: ServerResponse,
+    fileInfo: FileInfo,
+    content: Buffer | null,
+    range: ByteRange
+  ): Promise<void> {
+    if (content) {
+      res.write(content.subarray(range.start, range.end + 1));
+      return;
+    }
+
+    await pipeWithoutEnd(fs.createReadStream(fileInfo.path, { start: range.start, end: range.end }), res);
+  }
+
+  private shouldInjectLiveReload(fileInfo: FileInfo): boolean {
+    return this.options.liveReload && fileInfo.mimeType === 'text/html';
+  }
+
+  private shouldStream(fileInfo: FileInfo): boolean {
+    return fileInfo.size > this.options.streamThreshold;
+  }
+
+  // 流式发送大文件：未压缩时带 Content-Length，压缩时使用分块传输
+  private async streamFile(
+    req: IncomingMessage,
+    res: ServerResponse,
+    fileInfo: FileInfo,
+    encoding: ContentEncoding
+  ): Promise<void> {
+    this.setFileHeaders(res, fileInfo, null);
+
+    if (encoding === 'identity') {
+      res.setHeader('Content-Length', fileInfo.size);
+    } else {
+      // 压缩后的大小未知，不设置 Content-Length，由 Node.js 使用 chunked 编码
+      res.setHeader('Content-Encoding', encoding);
+      res.setHeader('X-Compression', 'stream');
+    }
+
+    res.writeHead(200);
+
+    if (req.method === 'HEAD') {
+      res.end();
+      return;
+    }
+
+    const source = fs.createReadStream(fileInfo.path);
+    if (encoding === 'identity') {
+      await pipeline(source, res);
+    } else {
+      await pipeline(source, createCompressionStream(encoding, this.options), res);
+    }
+  }
+
+  // 查找客户端可接受、且比源文件新的预压缩文件（如 app.js.br、app.js.gz）
+  private findPrecompressed(req: IncomingMessage, fileInfo: FileInfo): PrecompressedFile | null {
+    const candidates = new Map<CompressionEncoding, PrecompressedFile>();
+
+    for (const encoding of this.options.encodings) {
+      const sidecarPath = fileInfo.path + sidecarExtensions[encoding];
+      try {
+        const stat = fs.statSync(sidecarPath);
+        if (stat.isFile() && stat.mtime.getTime() >= fileInfo.mtime.getTime()) {
+          candidates.set(encoding, { path: sidecarPath, size: stat.size, encoding });
         }
-      });
+      } catch {
+        // sidecar 不存在
+      }
+    }
+
+    if (candidates.size === 0) {
+      return null;
+    }
+
+    const encoding = negotiateEncoding(req, Array.from(candidates.keys()));
+    return encoding && encoding !== 'identity' ? candidates.get(encoding)! : null;
+  }
+
+  private async sendPrecompressed(
+    req: IncomingMessage,
+    res: ServerResponse,
+    fileInfo: FileInfo,
+    sidecar: PrecompressedFile
+  ): Promise<void> {
+    // 使用源文件的 MIME 类型、ETag 和修改时间
+    this.setFileHeaders(res, fileInfo, {
+      originalSize: fileInfo.size,
+      compressedSize: sidecar.size,
+      encoding: sidecar.encoding
     });
+    res.setHeader('X-Precompressed', path.basename(sidecar.path));
+
+    res.writeHead(200);
+
+    if (req.method === 'HEAD') {
+      res.end();
+      return;
+    }
+
+    await pipeline(fs.createReadStream(sidecar.path), res);
+  }
+
+  private async getEncodedVariant(
+    filePath: string,
+    content: Buffer,
+    encoding: CompressionEncoding
+  ): Promise<Buffer | null> {
+    const cached = this.cache.get(filePath)?.variants[encoding];
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const compressed = await compressBuffer(content, encoding, this.options);
+      this.cache.setVariant(filePath, encoding, compressed);
+      return compressed;
+    } catch (error) {
+      console.warn(`Compression (${encoding}) failed:`, error);
+      return null;
+    }
+  }
+
+  private async handleDirectoryRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+    urlPath: string,
+    directoryPath: string
+  ): Promise<void> {
+    // 目录地址统一以 / 结尾，保证页面中的相对链接正确（trailingSlash 为 never 时除外）
+    if (!urlPath.endsWith('/') && this.options.trailingSlash !== 'never') {
+      const parsedUrl = url.parse(req.url || '/');
+      res.writeHead(301, { 'Location': `${localRedirectPath(parsedUrl.pathname || '/')}/${parsedUrl.search || ''}` });
+      res.end();
+      return;
+    }
+
+    // 任意层级的目录都优先返回其中的首页文件
+    const indexFile = path.posix.join(urlPath.slice(1), this.indexPath);
+    if (this.getFileInfo(indexFile)) {
+      await this.handleFileRequest(req, res, indexFile);
+      return;
+    }
+
+    if (!this.options.directoryListing) {
+      if (!(await this.tryFallback(req, res, urlPath))) {
+        this.sendError(res, 404, 'File not found');
+      }
+      return;
+    }
+
+    try {
+      const listing: DirectoryListing = {
+        path: urlPath,
+        entries: sortEntries(this.readDirectoryEntries(directoryPath))
+      };
+      sendDirectoryListing(req, res, listing);
+    } catch (error) {
+      console.error('Error listing directory:', error);
+      this.sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  private readDirectoryEntries(directoryPath: string): DirectoryEntry[] {
+    const entries: DirectoryEntry[] = [];
+
+    for (const name of fs.readdirSync(directoryPath)) {
+      // 隐藏文件不出现在列表中
+      if (name.startsWith('.')) continue;
+
+      const fullPath = path.join(directoryPath, name);
+      let stat: fs.Stats;
+      try {
+        stat = fs.statSync(fullPath);
+      } catch {
+        continue;
+      }
+
+      if (stat.isDirectory()) {
+        entries.push({
+          name,
+          type: 'directory',
+          mimeType: null,
+          size: 0,
+          gzipSize: null,
+          mtime: stat.mtime.toISOString()
+        });
+        continue;
+      }
+
+      if (!stat.isFile()) continue;
+
+      const mimeType = getMimeType(fullPath);
+      entries.push({
+        name,
+        type: 'file',
+        mimeType,
+        size: stat.size,
+        gzipSize: this.getGzipSize(fullPath, stat),
+        mtime: stat.mtime.toISOString()
+      });
+    }
+
+    return entries;
+  }
+
+  // 只报告已有的 gzip 大小：新鲜的 .gz sidecar，其次是缓存中的 gzip 版本；
+  // 列目录时不读取和压缩文件，否则一次列表请求就可能压缩整个目录
+  private getGzipSize(fullPath: string, stat: fs.Stats): number | null {
+    try {
+      const sidecar = fs.statSync(fullPath + sidecarExtensions.gzip);
+      if (sidecar.isFile() && sidecar.mtime.getTime() >= stat.mtime.getTime()) {
+        return sidecar.size;
+      }
+    } catch {
+      // sidecar 不存在
+    }
+
+    const cached = this.cache.peek(fullPath);
+    if (cached && cached.mtime === stat.mtime.getTime()) {
+      return cached.variants.gzip?.length ?? null;
+    }
+    return null;
+  }
+
+  // 客户端路由（history API）回退：未知的页面路径返回首页，静态资源缺失仍然 404
+  private shouldFallback(req: IncomingMessage, urlPath: string): boolean {
+    const { spaFallback } = this.options;
+    if (!spaFallback.enabled) {
+      return false;
+    }
+
+    // 只对浏览器页面请求回退，接口或资源请求（如 Accept: application/json）不回退
+    const accept = req.headers.accept;
+    if (accept && !accept.includes('text/html') && !accept.includes('*/*')) {
+      return false;
+    }
+
+    if (matchAnyGlob(urlPath, spaFallback.globs)) {
+      return true;
+    }
+
+    const lastSegment = urlPath.slice(urlPath.lastIndexOf('/') + 1);
+    return !lastSegment.includes('.');
+  }
+
+  private async tryFallback(req: IncomingMessage, res: ServerResponse, urlPath: string): Promise<boolean> {
+    if (!this.shouldFallback(req, urlPath)) {
+      return false;
+    }
+
+    const fallbackFile = (this.options.spaFallback.index || this.indexPath).replace(/^\/+/, '');
+    if (!this.getFileInfo(fallbackFile)) {
+      return false;
+    }
+
+    await this.handleFileRequest(req, res, fallbackFile, true);
+    return true;
+  }
+
+  // 简洁 URL：/about 或 /about/ 对应 about.html
+  private resolveCleanUrl(filePath: string): string | null {
+    if (!this.options.cleanUrls) {
+      return null;
+    }
+
+    const htmlFile = filePath.replace(/\/+$/, '') + '.html';
+    return htmlFile !== '.html' && this.getFileInfo(htmlFile) ? htmlFile : null;
   }
 
   public async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
-    const requestPath = req.url || '/';
+    let requestPath = req.url || '/';
+
+    // 在路径解码之前应用重定向和重写规则
+    const parsedUrl = url.parse(requestPath);
+    const rewrite = resolveRewrite(parsedUrl.pathname || '/', parsedUrl.search || '', {
+      rewrites: this.options.rewrites,
+      trailingSlash: this.options.trailingSlash,
+      cleanUrls: this.options.cleanUrls,
+      indexPath: this.indexPath
+    });
+
+    if (rewrite && rewrite.type === 'redirect') {
+      this.logger.debug(`Redirect ${requestPath} -> ${rewrite.url} (${rewrite.status})`);
+      res.writeHead(rewrite.status, { 'Location': rewrite.url });
+      res.end();
+      return;
+    }
+
+    if (rewrite) {
+      this.logger.debug(`Rewrite ${requestPath} -> ${rewrite.url} (source ${rewrite.rule.source})`);
+      requestPath = rewrite.url;
+    }
+
     const sanitizedPath = this.sanitizePath(requestPath);
 
     // 移除开头的 /
     const filePath = sanitizedPath.slice(1);
 
+    const directoryPath = this.getDirectoryPath(filePath);
+    if (directoryPath) {
+      await this.handleDirectoryRequest(req, res, sanitizedPath, directoryPath);
+      return;
+    }
+
+    if (!this.getFileInfo(filePath)) {
+      const cleanFile = this.resolveCleanUrl(filePath);
+      if (cleanFile) {
+        await this.handleFileRequest(req, res, cleanFile);
+        return;
+      }
+
+      if (await this.tryFallback(req, res, sanitizedPath)) {
+        return;
+      }
+    }
+
     await this.handleFileRequest(req, res, filePath);
   }
 
+  // 删除单个文件的缓存，返回被删除条目中已缓存的编码（未缓存时返回 null）
+  public invalidate(filePath: string): CompressionEncoding[] | null {
+    const key = path.resolve(filePath);
+    const entry = this.cache.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    this.cache.delete(key);
+    return Object.keys(entry.variants) as CompressionEncoding[];
+  }
+
+  // 删除目录下所有文件的缓存，返回删除的条目数量
+  public invalidateDirectory(directoryPath: string): number {
+    return this.cache.deleteByPrefix(path.resolve(directoryPath) + path.sep);
+  }
+
+  // 预先读取文件并生成指定编码的压缩版本
+  public async warmCache(filePath: string, encodings: CompressionEncoding[]): Promise<boolean> {
+    const fileInfo = this.getFileInfo(path.relative(this.rootDir, path.resolve(filePath)));
+    if (!fileInfo || this.shouldStream(fileInfo)) {
+      return false;
+    }
+
+    const content = this.readContent(fileInfo);
+    for (const encoding of encodings) {
+      await this.getEncodedVariant(fileInfo.path, content, encoding);
+    }
+    return true;
+  }
+
   public clearCache(): void {
     this.cache.clear();
+    this.contentETags.clear();
   }
 
   public getCacheStats() {
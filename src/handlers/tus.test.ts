@@ -0,0 +1,241 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseUploadMetadata, TusHandler, TUS_VERSION } from './tus';
+import { UploadDetails, UploadResult } from './upload';
+import { TusConfig } from '../types';
+import { createLogger } from '../utils/logger';
+import { request, TestRequest } from '../test/http';
+
+const BASE = '/api/tus';
+const TUS = { 'Tus-Resumable': TUS_VERSION };
+const CHUNK = { ...TUS, 'Content-Type': 'application/offset+octet-stream' };
+
+// 代替 UploadHandler：记录每次完成时收到的数据，finalizeUpload 可以被延迟
+class FakeUploads {
+  public finalized: { data: string; details: UploadDetails }[] = [];
+  public delay = 0;
+
+  checkUpload(originalName: string) {
+    return originalName.endsWith('.exe') ? { error: 'extension_not_allowed' as const, message: 'Extension not allowed' } : null;
+  }
+
+  async finalizeUpload(tempPath: string, details: UploadDetails): Promise<UploadResult> {
+    const data = readFileSync(tempPath, 'utf-8');
+    this.finalized.push({ data, details });
+    await new Promise(resolve => setTimeout(resolve, this.delay));
+    rmSync(tempPath);
+    return { success: true, filename: details.originalName, originalName: details.originalName, size: data.length };
+  }
+}
+
+let uploadDir: string;
+let uploads: FakeUploads;
+let tus: TusHandler;
+let server: http.Server;
+let port: number;
+
+function startHandler(config: Partial<TusConfig> = {}): Promise<void> {
+  uploads = new FakeUploads();
+  tus = new TusHandler(uploadDir, { enabled: true, maxSize: 100, expiration: 60000, ...config }, BASE, uploads, createLogger('error'));
+  server = http.createServer((req, res) => {
+    // 与 GzipStaticServer 相同：先应用方法改写，再交给 tus 处理
+    tus.applyMethodOverride(req);
+    tus.handleRequest(req, res, req.url!.slice(BASE.length));
+  });
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => {
+    port = (server.address() as AddressInfo).port;
+    resolve();
+  }));
+}
+
+function stopHandler(): Promise<void> {
+  tus.close();
+  return new Promise(resolve => server.close(() => resolve()));
+}
+
+const send = (path: string, options: TestRequest = {}) => request(port, path, options);
+
+async function create(length: number, metadata = `filename ${Buffer.from('notes.txt').toString('base64')}`): Promise<string> {
+  const res = await send(BASE, { method: 'POST', headers: { ...TUS, 'Upload-Length': length, 'Upload-Metadata': metadata } });
+  expect(res.status).toBe(201);
+  return res.headers.location as string;
+}
+
+function patch(location: string, offset: number, body: string, headers: Record<string, string | number> = {}) {
+  return send(location, { method: 'PATCH', headers: { ...CHUNK, 'Upload-Offset': offset, ...headers }, body });
+}
+
+async function offsetOf(location: string): Promise<string | undefined> {
+  return (await send(location, { method: 'HEAD', headers: TUS })).headers['upload-offset'] as string | undefined;
+}
+
+beforeEach(async () => {
+  uploadDir = mkdtempSync(join(tmpdir(), 'tus-test-'));
+  await startHandler();
+});
+
+afterEach(async () => {
+  await stopHandler();
+  rmSync(uploadDir, { recursive: true, force: true });
+});
+
+describe('parseUploadMetadata', () => {
+  it('decodes base64 values and keys without a value', () => {
+    expect(parseUploadMetadata(`filename ${Buffer.from('a b.txt').toString('base64')},is_confidential`))
+      .toEqual({ filename: 'a b.txt', is_confidential: '' });
+    expect(parseUploadMetadata(undefined)).toEqual({});
+  });
+
+  it('rejects malformed metadata', () => {
+    expect(parseUploadMetadata('filename not-base64!')).toBeNull();
+    expect(parseUploadMetadata('filename a b')).toBeNull();
+  });
+});
+
+describe('creation', () => {
+  it('advertises the protocol on OPTIONS and requires Tus-Resumable otherwise', async () => {
+    const options = await send(BASE, { method: 'OPTIONS' });
+    expect(options.status).toBe(204);
+    expect(options.headers['tus-version']).toBe(TUS_VERSION);
+    expect(options.headers['tus-max-size']).toBe('100');
+
+    expect((await send(BASE, { method: 'POST', headers: { 'Upload-Length': 5 } })).status).toBe(412);
+  });
+
+  it('validates Upload-Length, Tus-Max-Size, metadata and the upload policy', async () => {
+    expect((await send(BASE, { method: 'POST', headers: TUS })).status).toBe(400);
+    expect((await send(BASE, { method: 'POST', headers: { ...TUS, 'Upload-Length': -1 } })).status).toBe(400);
+    expect((await send(BASE, { method: 'POST', headers: { ...TUS, 'Upload-Length': 101 } })).status).toBe(413);
+    expect((await send(BASE, { method: 'POST', headers: { ...TUS, 'Upload-Length': 5, 'Upload-Metadata': 'x !' } })).status).toBe(400);
+
+    const exe = `filename ${Buffer.from('run.exe').toString('base64')}`;
+    const rejected = await send(BASE, { method: 'POST', headers: { ...TUS, 'Upload-Length': 5, 'Upload-Metadata': exe } });
+    expect(rejected.status).toBe(415);
+    expect(uploads.finalized).toHaveLength(0);
+  });
+
+  it('finalizes an empty upload immediately', async () => {
+    const location = await create(0);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(uploads.finalized).toEqual([{ data: '', details: expect.objectContaining({ originalName: 'notes.txt' }) }]);
+    expect(await offsetOf(location)).toBe('0');
+  });
+});
+
+describe('offsets', () => {
+  it('appends chunks at the current offset and finalizes once complete', async () => {
+    const location = await create(11);
+    expect(await offsetOf(location)).toBe('0');
+
+    const first = await patch(location, 0, 'hello ');
+    expect(first.status).toBe(204);
+    expect(first.headers['upload-offset']).toBe('6');
+    expect(await offsetOf(location)).toBe('6');
+    expect(uploads.finalized).toHaveLength(0);
+
+    const second = await patch(location, 6, 'world');
+    expect(second.status).toBe(204);
+    expect(second.headers['upload-offset']).toBe('11');
+    expect(uploads.finalized).toEqual([{ data: 'hello world', details: expect.objectContaining({ originalName: 'notes.txt' }) }]);
+
+    // 完成后偏移量保持不变，不能继续写入
+    expect(await offsetOf(location)).toBe('11');
+    expect((await patch(location, 11, '')).status).toBe(409);
+    expect(uploads.finalized).toHaveLength(1);
+  });
+
+  it('rejects a PATCH whose offset does not match and reports the current offset', async () => {
+    const location = await create(10);
+    await patch(location, 0, 'abc');
+
+    const mismatch = await patch(location, 0, 'abc');
+    expect(mismatch.status).toBe(409);
+    expect(mismatch.headers['upload-offset']).toBe('3');
+    expect(await offsetOf(location)).toBe('3');
+  });
+
+  it('requires the offset content type and a valid Upload-Offset', async () => {
+    const location = await create(10);
+    expect((await patch(location, 0, 'abc', { 'Content-Type': 'text/plain' })).status).toBe(415);
+    expect((await send(location, { method: 'PATCH', headers: CHUNK, body: 'abc' })).status).toBe(400);
+    expect(await offsetOf(location)).toBe('0');
+  });
+
+  it('rejects bodies that would exceed Upload-Length', async () => {
+    const location = await create(4);
+    expect((await patch(location, 0, 'too long')).status).toBe(413);
+    expect(await offsetOf(location)).toBe('0');
+    expect(uploads.finalized).toHaveLength(0);
+  });
+
+  it('answers 404 for unknown uploads and 410 for expired ones', async () => {
+    expect((await send(`${BASE}/${'0'.repeat(32)}`, { method: 'HEAD', headers: TUS })).status).toBe(404);
+    expect((await send(`${BASE}/../secret`, { method: 'HEAD', headers: TUS })).status).toBe(404);
+
+    await stopHandler();
+    await startHandler({ expiration: 1 });
+    const location = await create(5);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect((await send(location, { method: 'HEAD', headers: TUS })).status).toBe(410);
+    expect((await send(location, { method: 'HEAD', headers: TUS })).status).toBe(404);
+  });
+});
+
+describe('locking', () => {
+  it('holds the lock until finalization is done', async () => {
+    uploads.delay = 200;
+    const location = await create(5);
+
+    const completing = patch(location, 0, 'hello');
+    while (uploads.finalized.length === 0) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+
+    // 数据已全部写入但尚未完成处理：同一偏移量上的空 PATCH 和 DELETE 都必须等待
+    const concurrent = await patch(location, 5, '');
+    expect(concurrent.status).toBe(409);
+    expect((await send(location, { method: 'DELETE', headers: TUS })).status).toBe(409);
+
+    expect((await completing).status).toBe(204);
+    expect(uploads.finalized).toHaveLength(1);
+    expect((await patch(location, 5, '')).status).toBe(409);
+    expect(uploads.finalized).toHaveLength(1);
+  });
+
+  it('terminates uploads that are not locked', async () => {
+    const location = await create(5);
+    expect((await send(location, { method: 'DELETE', headers: TUS })).status).toBe(204);
+    expect((await send(location, { method: 'HEAD', headers: TUS })).status).toBe(404);
+    expect(existsSync(join(uploadDir, '.tus'))).toBe(true);
+  });
+});
+
+describe('X-HTTP-Method-Override', () => {
+  it('turns POST into PATCH or DELETE', async () => {
+    const location = await create(5);
+    const patched = await send(location, {
+      method: 'POST',
+      headers: { ...CHUNK, 'Upload-Offset': 0, 'X-HTTP-Method-Override': 'patch' },
+      body: 'hel'
+    });
+    expect(patched.status).toBe(204);
+    expect(await offsetOf(location)).toBe('3');
+
+    expect((await send(location, { method: 'POST', headers: { ...TUS, 'X-HTTP-Method-Override': 'DELETE' } })).status).toBe(204);
+    expect((await send(location, { method: 'HEAD', headers: TUS })).status).toBe(404);
+  });
+
+  it('is refused on other methods and for other targets', async () => {
+    const location = await create(5);
+    for (const method of ['GET', 'OPTIONS', 'HEAD']) {
+      const res = await send(location, { method, headers: { ...TUS, 'X-HTTP-Method-Override': 'DELETE' } });
+      expect(res.status).toBe(400);
+    }
+    const toGet = await send(location, { method: 'POST', headers: { ...TUS, 'X-HTTP-Method-Override': 'GET' } });
+    expect(toGet.status).toBe(400);
+    expect(await offsetOf(location)).toBe('0');
+  });
+});
@@ -0,0 +1,455 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { IncomingMessage, ServerResponse } from 'http';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { Logger, TusConfig } from '../types';
+import { rejectionStatus } from '../utils/upload-policy';
+import { parseTags } from '../utils/upload-index';
+import { UploadHandler, UploadResult } from './upload';
+
+export const TUS_VERSION = '1.0.0';
+const TUS_EXTENSIONS = 'creation,termination,expiration';
+const TUS_DIR = '.tus';
+const CLEANUP_INTERVAL = 60 * 60 * 1000;
+const METHOD_OVERRIDE_HEADER = 'x-http-method-override';
+// 只有 POST 可以被改写，且只能改写为这些方法
+const OVERRIDABLE_METHODS = ['PATCH', 'DELETE'];
+
+interface TusUpload {
+  id: string;
+  length: number;
+  offset: number;
+  metadata: Record<string, string>;
+  createdAt: string;
+  expiresAt: string;
+  // 创建上传的客户端地址，写入元数据索引
+  uploaderIp?: string | null;
+  // 完成后记录处理结果，HEAD 仍可查询最终偏移量
+  result?: UploadResult;
+}
+
+// 上传策略检查和完成后的处理由 UploadHandler 提供
+type UploadTarget = Pick<UploadHandler, 'checkUpload' | 'finalizeUpload'>;
+
+// Upload-Metadata: key base64value,key2 base64value2
+export function parseUploadMetadata(header: string | undefined): Record<string, string> | null {
+  const metadata: Record<string, string> = {};
+  if (!header) {
+    return metadata;
+  }
+
+  for (const pair of header.split(',')) {
+    const [key, value = '', ...rest] = pair.trim().split(' ');
+    if (!key || rest.length > 0 || !/^[A-Za-z0-9+/]*={0,2}$/.test(value)) {
+      return null;
+    }
+    metadata[key] = Buffer.from(value, 'base64').toString('utf-8');
+  }
+  return metadata;
+}
+
+function formatUploadMetadata(metadata: Record<string, string>): string {
+  return Object.entries(metadata)
+    .map(([key, value]) => value ? `${key} ${Buffer.from(value, 'utf-8').toString('base64')}` : key)
+    .join(',');
+}
+
+function parseNonNegativeInteger(value: string | string[] | undefined): number | null {
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isSafeInteger(parsed) ? parsed : null;
+}
+
+export class TusHandler {
+  private storageDir: string;
+  private config: TusConfig;
+  private basePath: string;
+  private uploads: UploadTarget;
+  private logger: Logger;
+  // 同一上传同时只允许一个 PATCH
+  private locks = new Set<string>();
+  private cleanupTimer: NodeJS.Timeout | null = null;
+
+  constructor(uploadDir: string, config: TusConfig, basePath: string, uploads: UploadTarget, logger: Logger) {
+    this.storageDir = path.join(uploadDir, TUS_DIR);
+    this.config = config;
+    this.basePath = basePath;
+    this.uploads = uploads;
+    this.logger = logger;
+
+    fs.mkdirSync(this.storageDir, { recursive: true });
+    this.removeExpired();
+    this.cleanupTimer = setInterval(() => this.removeExpired(), CLEANUP_INTERVAL);
+    this.cleanupTimer.unref();
+  }
+
+  private dataPath(id: string): string {
+    return path.join(this.storageDir, id);
+  }
+
+  private infoPath(id: string): string {
+    return path.join(this.storageDir, `${id}.json`);
+  }
+
+  private readUpload(id: string): TusUpload | null {
+    // id 由服务器生成，拒绝其他格式以防路径穿越
+    if (!/^[0-9a-f]{32}$/.test(id)) {
+      return null;
+    }
+    try {
+      return JSON.parse(fs.readFileSync(this.infoPath(id), 'utf-8'));
+    } catch {
+      return null;
+    }
+  }
+
+  // 先写临时文件再重命名，避免中断时留下损坏的记录
+  private writeUpload(upload: TusUpload): void {
+    const infoPath = this.infoPath(upload.id);
+    fs.writeFileSync(`${infoPath}.tmp`, JSON.stringify(upload, null, 2));
+    fs.renameSync(`${infoPath}.tmp`, infoPath);
+  }
+
+  private deleteUpload(id: string): void {
+    for (const file of [this.dataPath(id), this.infoPath(id)]) {
+      try {
+        fs.unlinkSync(file);
+      } catch {
+        // 文件可能已经被移走
+      }
+    }
+  }
+
+  private nextExpiry(): string {
+    return new Date(Date.now() + this.config.expiration).toISOString();
+  }
+
+  private isExpired(upload: TusUpload): boolean {
+    return Date.parse(upload.expiresAt) <= Date.now();
+  }
+
+  // 删除过期的上传（包括已完成上传的记录）
+  public removeExpired(): number {
+    let removed = 0;
+    for (const name of fs.readdirSync(this.storageDir)) {
+      if (!name.endsWith('.json')) continue;
+
+      const id = path.basename(name, '.json');
+      const upload = this.readUpload(id);
+      if (upload && !this.isExpired(upload)) continue;
+      if (this.locks.has(id)) continue;
+
+      this.deleteUpload(id);
+      removed++;
+    }
+
+    if (removed > 0) {
+      this.logger.info(`🧹 Removed ${removed} expired tus upload(s)`);
+    }
+    return removed;
+  }
+
+  private send(res: ServerResponse, statusCode: number, headers: Record<string, string | number> = {}, message?: string): void {
+    res.setHeader('Tus-Resumable', TUS_VERSION);
+    res.setHeader('Cache-Control', 'no-store');
+    if (message) {
+      res.writeHead(statusCode, { ...headers, 'Content-Type': 'text/plain; charset=utf-8', 'Content-Length': Buffer.byteLength(message) });
+      res.end(message);
+    } else {
+      res.writeHead(statusCode, headers);
+      res.end();
+    }
+  }
+
+  public isTusPath(pathname: string): boolean {
+    return pathname === this.basePath || pathname.startsWith(this.basePath + '/');
+  }
+
+  // 部分环境只允许 GET/POST，tus 允许 POST 通过 X-HTTP-Method-Override 改写为 PATCH / DELETE。
+  // 需要在 CORS 和身份验证之前调用，之后的所有检查看到的都是实际执行的方法；
+  // 改写后去掉该头部，handleRequest 据此拒绝没有被采用的改写
+  public applyMethodOverride(req: IncomingMessage): void {
+    const override = req.headers[METHOD_OVERRIDE_HEADER];
+    if (req.method !== 'POST' || typeof override !== 'string') {
+      return;
+    }
+
+    const method = override.trim().toUpperCase();
+    if (OVERRIDABLE_METHODS.includes(method)) {
+      req.method = method;
+      delete req.headers[METHOD_OVERRIDE_HEADER];
+    }
+  }
+
+  // resourcePath 为 tus 端点之后的部分：'' 表示上传集合，'/<id>' 表示单个上传
+  public async handleRequest(req: IncomingMessage, res: ServerResponse, resourcePath: string): Promise<void> {
+    if (req.headers[METHOD_OVERRIDE_HEADER] !== undefined) {
+      this.send(res, 400, {}, `X-HTTP-Method-Override is only allowed on POST, for ${OVERRIDABLE_METHODS.join(' or ')}`);
+      return;
+    }
+
+    const method = req.method || 'GET';
+
+    if (method === 'OPTIONS') {
+      this.send(res, 204, {
+        'Tus-Version': TUS_VERSION,
+        'Tus-Extension': TUS_EXTENSIONS,
+        'Tus-Max-Size': this.config.maxSize
+      });
+      return;
+    }
+
+    if (req.headers['tus-resumable'] !== TUS_VERSION) {
+      this.send(res, 412, { 'Tus-Version': TUS_VERSION }, 'Unsupported Tus-Resumable version');
+      return;
+    }
+
+    if (resourcePath === '' || resourcePath === '/') {
+      if (method === 'POST') {
+        this.handleCreate(req, res);
+      } else {
+        this.send(res, 405, { 'Allow': 'POST, OPTIONS' }, 'Method Not Allowed');
+      }
+      return;
+    }
+
+    const id = resourcePath.replace(/^\//, '');
+    const upload = this.readUpload(id);
+    if (!upload) {
+      this.send(res, 404, {}, 'Upload not found');
+      return;
+    }
+
+    if (this.isExpired(upload)) {
+      this.deleteUpload(id);
+      this.send(res, 410, {}, 'Upload expired');
+      return;
+    }
+
+    switch (method) {
+      case 'HEAD':
+        this.handleHead(res, upload);
+        break;
+      case 'PATCH':
+        await this.handlePatch(req, res, upload);
+        break;
+      case 'DELETE':
+        this.handleDelete(res, upload);
+        break;
+      default:
+        this.send(res, 405, { 'Allow': 'HEAD, PATCH, DELETE, OPTIONS' }, 'Method Not Allowed');
+    }
+  }
+
+  // creation 扩展：POST 创建上传，返回 Location
+  private handleCreate(req: IncomingMessage, res: ServerResponse): void {
+    const length = parseNonNegativeInteger(req.headers['upload-length']);
+    if (length === null) {
+      this.send(res, 400, {}, 'Missing or invalid Upload-Length');
+      return;
+    }
+
+    if (length > this.config.maxSize) {
+      this.send(res, 413, {}, `Upload exceeds Tus-Max-Size (${this.config.maxSize} bytes)`);
+      return;
+    }
+
+    const metadata = parseUploadMetadata(req.headers['upload-metadata'] as string | undefined);
+    if (metadata === null) {
+      this.send(res, 400, {}, 'Invalid Upload-Metadata');
+      return;
+    }
+
+    // 创建时先按声明的文件名和长度检查上传策略，内容类型在上传完成后检查
+    const rejection = this.uploads.checkUpload(this.originalName(metadata), length, metadata.path);
+    if (rejection) {
+      this.logger.warn(`tus upload rejected (${rejection.error}): ${rejection.message}`);
+      this.send(res, rejectionStatus(rejection.error), {}, rejection.message);
+      return;
+    }
+
+    const upload: TusUpload = {
+      id: crypto.randomBytes(16).toString('hex'),
+      length,
+      offset: 0,
+      metadata,
+      createdAt: new Date().toISOString(),
+      expiresAt: this.nextExpiry(),
+      uploaderIp: req.socket.remoteAddress || null
+    };
+
+    fs.writeFileSync(this.dataPath(upload.id), '');
+    this.writeUpload(upload);
+    this.logger.info(`tus upload created: ${upload.id} (${metadata.filename || 'unnamed'}, ${length} bytes)`);
+
+    // 请求体为空的上传立即完成，完成前持有锁，与 PATCH 相同
+    if (length === 0) {
+      req.resume();
+      this.locks.add(upload.id);
+      this.complete(upload)
+        .catch(error => this.logger.error('tus finalize error:', error))
+        .finally(() => this.locks.delete(upload.id));
+    }
+
+    this.send(res, 201, {
+      'Location': `${this.basePath}/${upload.id}`,
+      'Upload-Expires': new Date(upload.expiresAt).toUTCString()
+    });
+  }
+
+  private handleHead(res: ServerResponse, upload: TusUpload): void {
+    const headers: Record<string, string | number> = {
+      'Upload-Offset': this.currentOffset(upload),
+      'Upload-Length': upload.length,
+      'Upload-Expires': new Date(upload.expiresAt).toUTCString()
+    };
+    if (Object.keys(upload.metadata).length > 0) {
+      headers['Upload-Metadata'] = formatUploadMetadata(upload.metadata);
+    }
+    this.send(res, 200, headers);
+  }
+
+  // 已写入磁盘的字节数即为偏移量，连接中断后写入的部分同样有效
+  private currentOffset(upload: TusUpload): number {
+    if (upload.result) {
+      return upload.offset;
+    }
+    try {
+      return fs.statSync(this.dataPath(upload.id)).size;
+    } catch {
+      return upload.offset;
+    }
+  }
+
+  private async handlePatch(req: IncomingMessage, res: ServerResponse, upload: TusUpload): Promise<void> {
+    if (req.headers['content-type'] !== 'application/offset+octet-stream') {
+      this.send(res, 415, {}, 'Content-Type must be application/offset+octet-stream');
+      return;
+    }
+
+    const requestOffset = parseNonNegativeInteger(req.headers['upload-offset']);
+    if (requestOffset === null) {
+      this.send(res, 400, {}, 'Missing or invalid Upload-Offset');
+      return;
+    }
+
+    if (this.locks.has(upload.id)) {
+      this.send(res, 409, {}, 'Upload is locked by another request');
+      return;
+    }
+
+    const offset = this.currentOffset(upload);
+    if (requestOffset !== offset || upload.result) {
+      this.send(res, 409, { 'Upload-Offset': offset }, 'Upload-Offset mismatch');
+      return;
+    }
+
+    const contentLength = parseNonNegativeInteger(req.headers['content-length']);
+    if (contentLength !== null && offset + contentLength > upload.length) {
+      this.send(res, 413, {}, 'Request body exceeds Upload-Length');
+      return;
+    }
+
+    // 锁一直持有到上传完成后的处理结束，否则同一偏移量上的并发 PATCH（例如长度为 0 的请求体）
+    // 可能在 upload.result 写入之前再次完成同一上传
+    this.locks.add(upload.id);
+    try {
+      await this.receiveChunk(req, res, upload, offset);
+    } finally {
+      this.locks.delete(upload.id);
+    }
+  }
+
+  private async receiveChunk(req: IncomingMessage, res: ServerResponse, upload: TusUpload, offset: number): Promise<void> {
+    let received = 0;
+    let exceeded = false;
+
+    // 超出 Upload-Length 的数据直接拒绝
+    const limiter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        received += chunk.length;
+        if (offset + received > upload.length) {
+          exceeded = true;
+          callback(new Error('Request body exceeds Upload-Length'));
+        } else {
+          callback(null, chunk);
+        }
+      }
+    });
+
+    try {
+      await pipeline(req, limiter, fs.createWriteStream(this.dataPath(upload.id), { flags: 'a' }));
+    } catch (error) {
+      // 客户端中断时保留已写入的部分，之后可从新的偏移量继续
+      if (!exceeded) {
+        this.logger.debug(`tus PATCH interrupted for ${upload.id}: ${(error as Error).message}`);
+      }
+    }
+
+    upload.offset = this.currentOffset(upload);
+    upload.expiresAt = this.nextExpiry();
+    this.writeUpload(upload);
+
+    if (exceeded) {
+      this.send(res, 413, { 'Upload-Offset': upload.offset }, 'Request body exceeds Upload-Length');
+      return;
+    }
+
+    if (upload.offset === upload.length) {
+      const result = await this.complete(upload);
+
+      // 内容未通过上传策略检查（例如按文件头识别出的类型不允许）
+      if (result.error) {
+        this.send(res, rejectionStatus(result.error), { 'Upload-Offset': upload.offset }, result.message);
+        return;
+      }
+    }
+
+    if (!res.writableEnded && !res.destroyed) {
+      this.send(res, 204, {
+        'Upload-Offset': upload.offset,
+        'Upload-Expires': new Date(upload.expiresAt).toUTCString()
+      });
+    }
+  }
+
+  private originalName(metadata: Record<string, string>, fallback = ''): string {
+    return path.basename(metadata.filename || metadata.name || fallback);
+  }
+
+  // 上传完成后与普通上传一样移动到上传目录并生成 gzip 版本
+  private async complete(upload: TusUpload): Promise<UploadResult> {
+    upload.result = await this.uploads.finalizeUpload(this.dataPath(upload.id), {
+      originalName: this.originalName(upload.metadata, upload.id),
+      folder: upload.metadata.path,
+      uploaderIp: upload.uploaderIp ?? null,
+      tags: parseTags(upload.metadata.tags)
+    });
+    this.writeUpload(upload);
+    this.logger.info(`tus upload completed: ${upload.id} -> ${upload.result.filename || '(failed)'}`);
+    return upload.result;
+  }
+
+  // termination 扩展
+  private handleDelete(res: ServerResponse, upload: TusUpload): void {
+    if (this.locks.has(upload.id)) {
+      this.send(res, 409, {}, 'Upload is locked by another request');
+      return;
+    }
+
+    this.deleteUpload(upload.id);
+    this.logger.info(`tus upload terminated: ${upload.id}`);
+    this.send(res, 204);
+  }
+
+  public close(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+  }
+}
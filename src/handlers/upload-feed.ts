@@ -0,0 +1,154 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { existsSync, statSync } from 'fs';
+import { join, relative, resolve, sep } from 'path';
+import { Logger } from '../types';
+import { FileWatcher } from '../utils/watcher';
+import { formatEvent, openEventStream, startHeartbeat } from '../utils/sse';
+
+// 合并短时间内的多个事件，例如上传时原文件和 .gz 副本先后写入
+const FEED_DELAY = 200;
+
+type FeedChange = 'added' | 'removed';
+
+// 上传目录的实时动态：<apiPrefix>/feed 是 Server-Sent Events 端点，
+// 文件出现（新上传、覆盖、移动后的新位置）时推送 added，删除或移走时推送 removed。
+// 第一个客户端连接时才开始监听 uploadDir，最后一个客户端断开后停止
+export class UploadFeed {
+  private uploadDir: string;
+  private watcher: FileWatcher;
+  private clients = new Set<ServerResponse>();
+  // 按存储路径记录待发送的变化，同一文件只保留最后一次
+  private pending = new Map<string, FeedChange>();
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private logger: Logger;
+
+  constructor(uploadDir: string, logger: Logger) {
+    this.uploadDir = resolve(uploadDir);
+    this.logger = logger;
+    this.watcher = new FileWatcher(logger);
+    this.watcher.on('change', (filePath: string) => this.record(filePath, 'added'));
+    this.watcher.on('unlink', (filePath: string) => this.record(filePath, 'removed'));
+  }
+
+  private start(): void {
+    // 不监听 .incoming、.tus、.versions 等内部目录和 .index.json
+    this.watcher.start(this.uploadDir, {
+      ignored: [join(this.uploadDir, '**', '.*')]
+    });
+  }
+
+  // 相对上传目录的存储路径；隐藏条目（包括隐藏目录中的文件）返回 null
+  private toStoredName(filePath: string): string | null {
+    const segments = relative(this.uploadDir, resolve(filePath)).split(sep);
+    if (segments.some(segment => segment === '' || segment === '..' || segment.startsWith('.'))) {
+      return null;
+    }
+    return segments.join('/');
+  }
+
+  private record(filePath: string, change: FeedChange): void {
+    const name = this.toStoredName(filePath);
+    if (!name) {
+      return;
+    }
+
+    this.pending.set(name, change);
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      this.flush();
+    }, FEED_DELAY);
+  }
+
+  private flush(): void {
+    const changes = Array.from(this.pending);
+    const names = new Set(this.pending.keys());
+    this.pending.clear();
+
+    for (const [name, change] of changes) {
+      // 自动生成的 .gz 副本与原文件一起出现和消失，不单独推送
+      if (name.endsWith('.gz')) {
+        const original = name.slice(0, -'.gz'.length);
+        if (names.has(original) || existsSync(join(this.uploadDir, original))) {
+          continue;
+        }
+      }
+
+      if (change === 'removed') {
+        this.broadcast('removed', { filename: name, folder: this.folderOf(name), time: new Date().toISOString() });
+        continue;
+      }
+
+      // 目录的创建也会触发 change，只推送文件；文件可能已经再次被删除
+      let size: number;
+      let modified: Date;
+      try {
+        const stats = statSync(join(this.uploadDir, name));
+        if (!stats.isFile()) continue;
+        size = stats.size;
+        modified = stats.mtime;
+      } catch {
+        continue;
+      }
+      this.broadcast('added', { filename: name, folder: this.folderOf(name), size, time: modified.toISOString() });
+    }
+  }
+
+  private folderOf(name: string): string {
+    const index = name.lastIndexOf('/');
+    return index === -1 ? '' : name.slice(0, index);
+  }
+
+  private broadcast(event: FeedChange, data: object): void {
+    this.logger.debug(`Upload feed: ${event} ${JSON.stringify(data)}`);
+    const message = formatEvent(event, data);
+    for (const client of this.clients) {
+      client.write(message);
+    }
+  }
+
+  public handleRequest(req: IncomingMessage, res: ServerResponse): void {
+    openEventStream(req, res);
+
+    this.clients.add(res);
+    if (!this.watcher.isRunning()) {
+      this.start();
+    }
+    if (!this.heartbeatTimer) {
+      this.heartbeatTimer = startHeartbeat(() => this.clients);
+    }
+    this.logger.debug(`Upload feed client connected (${this.clients.size} total)`);
+
+    req.on('close', () => {
+      this.clients.delete(res);
+      this.logger.debug(`Upload feed client disconnected (${this.clients.size} total)`);
+      if (this.clients.size === 0) {
+        this.stopWatching();
+      }
+    });
+  }
+
+  private stopWatching(): void {
+    this.watcher.stop();
+    this.pending.clear();
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  public close(): void {
+    this.stopWatching();
+    for (const client of this.clients) {
+      client.end();
+    }
+    this.clients.clear();
+  }
+}
@@ -0,0 +1,221 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { Logger } from '../types';
+import { formatEvent, openEventStream, startHeartbeat } from '../utils/sse';
+import { sendJsonError } from '../utils/json';
+
+// 上传 ID 由客户端生成（例如 crypto.randomUUID()），通过 ?uploadId= 传给上传接口
+const UPLOAD_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+// 两次 progress 事件之间的最短间隔，formidable 每收到一个数据块都会触发 progress
+const PROGRESS_INTERVAL = 250;
+
+// 上传结束后保留最终状态的时间，供稍晚连接的客户端获取结果
+const FINISHED_TTL = 60 * 1000;
+
+type UploadStatus = 'pending' | 'uploading' | 'processing' | 'complete' | 'failed';
+
+interface TrackedUpload {
+  status: UploadStatus;
+  bytesReceived: number;
+  // 请求没有 Content-Length 时为 null
+  bytesExpected: number | null;
+  message: string | null;
+  success: boolean;
+  clients: Set<ServerResponse>;
+  lastSent: number;
+  expireTimer: NodeJS.Timeout | null;
+}
+
+export function isValidUploadId(id: string): boolean {
+  return UPLOAD_ID_PATTERN.test(id);
+}
+
+// multipart 上传的服务端进度：<apiPrefix>/progress/<uploadId> 是 Server-Sent Events 端点，
+// 依次推送 progress（已接收字节数）、processing（接收完成，正在校验和压缩）以及 complete 或 failed
+export class UploadProgressTracker {
+  private uploads = new Map<string, TrackedUpload>();
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private logger: Logger;
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+  }
+
+  private create(): TrackedUpload {
+    return {
+      status: 'pending',
+      bytesReceived: 0,
+      bytesExpected: null,
+      message: null,
+      success: false,
+      clients: new Set(),
+      lastSent: 0,
+      expireTimer: null
+    };
+  }
+
+  private isFinished(upload: TrackedUpload): boolean {
+    return upload.status === 'complete' || upload.status === 'failed';
+  }
+
+  // 当前状态对应的事件，pending 时没有可发送的内容
+  private snapshot(id: string, upload: TrackedUpload): string | null {
+    switch (upload.status) {
+      case 'uploading': {
+        const percent = upload.bytesExpected
+          ? Math.min(Math.round(upload.bytesReceived / upload.bytesExpected * 100), 100)
+          : null;
+        return formatEvent('progress', {
+          uploadId: id,
+          bytesReceived: upload.bytesReceived,
+          bytesExpected: upload.bytesExpected,
+          percent
+        });
+      }
+      case 'processing':
+        return formatEvent('processing', { uploadId: id, bytesReceived: upload.bytesReceived });
+      case 'complete':
+      case 'failed':
+        return formatEvent(upload.status, { uploadId: id, success: upload.success, message: upload.message });
+      default:
+        return null;
+    }
+  }
+
+  private publish(id: string, upload: TrackedUpload): void {
+    const message = this.snapshot(id, upload);
+    if (!message) {
+      return;
+    }
+
+    upload.lastSent = Date.now();
+    for (const client of upload.clients) {
+      client.write(message);
+    }
+
+    // 最终状态发送后结束连接，客户端收到 complete / failed 后应关闭 EventSource，否则会自动重连
+    if (this.isFinished(upload)) {
+      for (const client of upload.clients) {
+        client.end();
+      }
+      upload.clients.clear();
+    }
+  }
+
+  // 开始跟踪一次上传；同一 ID 的上传仍在进行时返回 false，本次上传不再跟踪
+  public begin(id: string): boolean {
+    const existing = this.uploads.get(id);
+    if (existing && (existing.status === 'uploading' || existing.status === 'processing')) {
+      this.logger.warn(`Upload ID ${id} is already in use, progress will not be tracked`);
+      return false;
+    }
+
+    const upload = existing || this.create();
+    if (upload.expireTimer) {
+      clearTimeout(upload.expireTimer);
+      upload.expireTimer = null;
+    }
+    Object.assign(upload, { status: 'uploading', bytesReceived: 0, bytesExpected: null, message: null, success: false, lastSent: 0 });
+    this.uploads.set(id, upload);
+    return true;
+  }
+
+  public progress(id: string, bytesReceived: number, bytesExpected: number | null): void {
+    const upload = this.uploads.get(id);
+    if (!upload || upload.status !== 'uploading') {
+      return;
+    }
+
+    upload.bytesReceived = bytesReceived;
+    upload.bytesExpected = bytesExpected || null;
+    if (Date.now() - upload.lastSent >= PROGRESS_INTERVAL || bytesReceived === bytesExpected) {
+      this.publish(id, upload);
+    }
+  }
+
+  public processing(id: string): void {
+    const upload = this.uploads.get(id);
+    if (upload && upload.status === 'uploading') {
+      upload.status = 'processing';
+      this.publish(id, upload);
+    }
+  }
+
+  public finish(id: string, success: boolean, message: string): void {
+    const upload = this.uploads.get(id);
+    if (!upload || this.isFinished(upload)) {
+      return;
+    }
+
+    Object.assign(upload, { status: success ? 'complete' : 'failed', success, message });
+    this.publish(id, upload);
+
+    upload.expireTimer = setTimeout(() => {
+      if (this.uploads.get(id) === upload) {
+        this.uploads.delete(id);
+      }
+    }, FINISHED_TTL);
+    upload.expireTimer.unref();
+  }
+
+  // 可以在上传开始前订阅，此时先保留一个 pending 状态，直到对应的上传开始
+  public handleRequest(req: IncomingMessage, res: ServerResponse, id: string): void {
+    if (!isValidUploadId(id)) {
+      sendJsonError(res, 400, 'invalid_upload_id', 'Upload ID must be 1-64 characters of A-Z, a-z, 0-9, "_" or "-"');
+      return;
+    }
+
+    let upload = this.uploads.get(id);
+    if (!upload) {
+      upload = this.create();
+      this.uploads.set(id, upload);
+    }
+
+    openEventStream(req, res);
+    const current = this.snapshot(id, upload);
+    if (current) {
+      res.write(current);
+    }
+    if (this.isFinished(upload)) {
+      res.end();
+      return;
+    }
+
+    upload.clients.add(res);
+    if (!this.heartbeatTimer) {
+      this.heartbeatTimer = startHeartbeat(() => this.allClients());
+    }
+
+    const tracked = upload;
+    req.on('close', () => {
+      tracked.clients.delete(res);
+      // 没有对应上传的订阅断开后不再保留
+      if (tracked.status === 'pending' && tracked.clients.size === 0 && this.uploads.get(id) === tracked) {
+        this.uploads.delete(id);
+      }
+    });
+  }
+
+  private *allClients(): Iterable<ServerResponse> {
+    for (const upload of this.uploads.values()) {
+      yield* upload.clients;
+    }
+  }
+
+  public close(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+
+    for (const upload of this.uploads.values()) {
+      if (upload.expireTimer) {
+        clearTimeout(upload.expireTimer);
+      }
+      for (const client of upload.clients) {
+        client.end();
+      }
+    }
+    this.uploads.clear();
+  }
+}
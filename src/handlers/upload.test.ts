@@ -0,0 +1,75 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { UploadHandler } from './upload';
+import { UploadProgressTracker } from './upload-progress';
+import { defaultConfig } from '../config';
+import { UploadPolicyConfig } from '../types';
+import { createLogger } from '../utils/logger';
+
+let baseDir: string;
+let uploadDir: string;
+
+beforeEach(() => {
+  baseDir = mkdtempSync(join(tmpdir(), 'upload-test-'));
+  uploadDir = join(baseDir, 'uploads');
+});
+
+afterEach(() => {
+  rmSync(baseDir, { recursive: true, force: true });
+});
+
+function handler(overrides: Partial<UploadPolicyConfig> = {}): UploadHandler {
+  const logger = createLogger('error');
+  return new UploadHandler(
+    uploadDir,
+    { ...defaultConfig.upload, ...overrides },
+    defaultConfig.versioning,
+    defaultConfig.extraction,
+    baseDir,
+    new UploadProgressTracker(logger),
+    logger
+  );
+}
+
+// finalizeUpload 会移走临时文件，每次上传写一个新的
+let tempCount = 0;
+function tempFile(content: string): string {
+  const tempPath = join(baseDir, `incoming-${tempCount++}`);
+  writeFileSync(tempPath, content);
+  return tempPath;
+}
+
+describe('UploadHandler.finalizeUpload deduplication', () => {
+  it('stores identical content under the requested name and folder by default', async () => {
+    const uploads = handler();
+    const first = await uploads.finalizeUpload(tempFile('same content'), { originalName: 'a.txt' });
+    const second = await uploads.finalizeUpload(tempFile('same content'), { originalName: 'b.txt', folder: 'docs' });
+
+    expect(first).toMatchObject({ success: true, filename: 'a.txt' });
+    expect(second).toMatchObject({ success: true, filename: 'docs/b.txt' });
+    expect(second.duplicate).toBeUndefined();
+    expect(readFileSync(join(uploadDir, 'docs', 'b.txt'), 'utf-8')).toBe('same content');
+  });
+
+  it('returns the existing file when deduplication is enabled', async () => {
+    const uploads = handler({ deduplicate: true });
+    await uploads.finalizeUpload(tempFile('same content'), { originalName: 'a.txt' });
+    const tempPath = tempFile('same content');
+    const second = await uploads.finalizeUpload(tempPath, { originalName: 'b.txt', folder: 'docs' });
+
+    expect(second).toMatchObject({ success: true, filename: 'a.txt', originalName: 'b.txt', duplicate: true });
+    expect(existsSync(join(uploadDir, 'docs', 'b.txt'))).toBe(false);
+    expect(existsSync(tempPath)).toBe(false);
+  });
+
+  it('stores the content again once the earlier copy is gone', async () => {
+    const uploads = handler({ deduplicate: true });
+    await uploads.finalizeUpload(tempFile('same content'), { originalName: 'a.txt' });
+    rmSync(join(uploadDir, 'a.txt'));
+
+    const second = await uploads.finalizeUpload(tempFile('same content'), { originalName: 'b.txt' });
+    expect(second).toMatchObject({ success: true, filename: 'b.txt' });
+    expect(second.duplicate).toBeUndefined();
+  });
+});
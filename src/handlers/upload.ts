@@ -1,10 +1,38 @@
 import { IncomingMessage, ServerResponse } from 'http';
-import { existsSync, mkdirSync, statSync, readdirSync, createReadStream, createWriteStream, unlinkSync } from 'fs';
-import { join, extname, basename } from 'path';
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, mkdtempSync, statSync, readdirSync, createReadStream, createWriteStream, unlinkSync, renameSync, rmSync, copyFileSync, Stats } from 'fs';
+import { join, extname, basename, dirname, relative, resolve, sep } from 'path';
 import { createGzip } from 'zlib';
 import { pipeline } from 'stream';
-import { Formidable } from 'formidable';
-import { Logger } from '../types';
+import { Fields, File, Files, Formidable } from 'formidable';
+import { ExtractionConfig, Logger, UploadErrorCode, UploadPolicyConfig, VersioningConfig } from '../types';
+import { negotiateEncoding } from './gzip';
+import { isValidUploadId, UploadProgressTracker } from './upload-progress';
+import { encodingETag, evaluatePreconditions } from '../utils/conditional';
+import { readJsonBody, sendJson, sendJsonError } from '../utils/json';
+import { getMimeType, shouldCompress } from '../utils/mime';
+import { archiveFormat, ArchiveEntry, extractArchive, stagedPath } from '../utils/archive';
+import { matchesMimeType, UploadPolicy, UploadRejection } from '../utils/upload-policy';
+import { parseTags, UploadIndex, UploadRecord, VersionRecord } from '../utils/upload-index';
+import { VersionStore } from '../utils/version-store';
+import { sniffMimeType } from '../utils/sniff';
+import { sanitizeFilename, sanitizeFolder, sanitizeUploadPath } from '../utils/filename';
+import { appendVary } from '../utils/vary';
+import { contentDisposition } from '../utils/disposition';
+
+// <apiPrefix>/files/<name> 支持的方法
+const FILE_METHODS = 'GET, HEAD, PATCH, DELETE, OPTIONS';
+// <apiPrefix>/versions/<name> 支持的方法
+const VERSION_METHODS = 'GET, HEAD, POST, DELETE, OPTIONS';
+
+// formidable 超出 maxFiles 时的错误码（类型声明中缺少该常量）
+const FORMIDABLE_MAX_FILES_EXCEEDED = 1015;
+
+// multipart 上传的临时目录，以 . 开头因此不会出现在文件列表和容量统计中
+const INCOMING_DIR = '.incoming';
+
+// 请求被拒绝时 formidable 可能仍在写入临时文件，超过该时间未修改的临时文件视为残留
+const INCOMING_STALE_MS = 60 * 60 * 1000;
 
 export interface UploadResult {
   success: boolean;
@@ -13,28 +41,113 @@ export interface UploadResult {
   size: number;
   gzipSize?: number;
   compressionRatio?: number;
+  sha256?: string;
+  mimeType?: string;
+  // 内容与已有文件相同，未保存新副本，filename 为已有文件
+  duplicate?: boolean;
+  // 解压压缩包时为解压目录（相对 uploadDir 或 rootDir）和每个条目的处理结果
+  extractedTo?: { target: ExtractTarget; folder: string };
+  entries?: ExtractedEntry[];
   message?: string;
+  error?: UploadErrorCode;
+}
+
+// 压缩包解压到 uploadDir 还是 rootDir
+export type ExtractTarget = 'upload' | 'root';
+
+export interface ExtractedEntry extends ArchiveEntry {
+  mimeType?: string;
+  // 可压缩的文件会同时生成 .gz 版本
+  gzipSize?: number;
+}
+
+// 上传文件的附加信息，multipart 和 tus 上传共用
+export interface UploadDetails {
+  originalName: string;
+  // uploadDir 下的子目录
+  folder?: string;
+  uploaderIp?: string | null;
+  tags?: string[];
 }
 
 export interface FileList {
+  // 当前列出的子目录，根目录为空字符串
+  folder: string;
+  // 当前目录下的直接子目录（递归列出时为所有子目录）
+  folders: string[];
   files: Array<{
+    // 相对上传目录的路径，例如 docs/report.pdf
     filename: string;
+    folder: string;
     originalName: string;
     size: number;
     gzipSize: number;
     compressionRatio: number;
     uploadTime: string;
+    // 以下字段来自元数据索引，索引中没有记录的文件为 null / 空
+    sha256: string | null;
+    mimeType: string;
+    uploaderIp: string | null;
+    tags: string[];
   }>;
 }
 
+// 文件列表的查询条件
+interface FileFilter {
+  name: string | null;
+  mime: string | null;
+  tags: string[];
+  sha256: string | null;
+  uploader: string | null;
+  since: number | null;
+  until: number | null;
+}
+
+// 跨文件系统时（例如 rootDir 与 uploadDir 不在同一分区）无法直接重命名
+function moveFile(from: string, to: string): void {
+  try {
+    renameSync(from, to);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EXDEV') {
+      throw error;
+    }
+    copyFileSync(from, to);
+    unlinkSync(from);
+  }
+}
+
 export class UploadHandler {
   private uploadDir: string;
+  private policy: UploadPolicy;
+  private deduplicate: boolean;
+  private index: UploadIndex;
+  private versioning: VersioningConfig;
+  private versions: VersionStore;
+  private extraction: ExtractionConfig;
+  private rootDir: string;
+  private progress: UploadProgressTracker;
   private logger: Logger;
 
-  constructor(uploadDir: string, logger: Logger) {
+  constructor(
+    uploadDir: string,
+    policy: UploadPolicyConfig,
+    versioning: VersioningConfig,
+    extraction: ExtractionConfig,
+    rootDir: string,
+    progress: UploadProgressTracker,
+    logger: Logger
+  ) {
     this.uploadDir = uploadDir;
+    this.policy = new UploadPolicy(policy, uploadDir);
+    this.deduplicate = policy.deduplicate;
+    this.versioning = versioning;
+    this.versions = new VersionStore(uploadDir);
+    this.extraction = extraction;
+    this.rootDir = rootDir;
+    this.progress = progress;
     this.logger = logger;
     this.ensureUploadDir();
+    this.index = new UploadIndex(uploadDir, logger);
   }
 
   private ensureUploadDir(): void {
@@ -76,10 +189,9 @@ export class UploadHandler {
     });
   }
 
-  
-  private generateUniqueFilename(originalName: string): string {
+  private generateUniqueFilename(dir: string, originalName: string): string {
     // 如果文件不存在，直接使用原始文件名
-    const filePath = join(this.uploadDir, originalName);
+    const filePath = join(dir, originalName);
     if (!existsSync(filePath)) {
       return originalName;
     }
@@ -91,7 +203,7 @@ export class UploadHandler {
 
     while (true) {
       const newFilename = `${nameWithoutExt}_${counter}${ext}`;
-      const newPath = join(this.uploadDir, newFilename);
+      const newPath = join(dir, newFilename);
       if (!existsSync(newPath)) {
         return newFilename;
       }
@@ -99,16 +211,113 @@ export class UploadHandler {
     }
   }
 
-  private async handleSingleFile(file: any): Promise<UploadResult> {
+  private removeStaleIncoming(incomingDir: string): void {
+    const now = Date.now();
+    for (const name of readdirSync(incomingDir)) {
+      const tempPath = join(incomingDir, name);
+      try {
+        if (now - statSync(tempPath).mtimeMs > INCOMING_STALE_MS) {
+          rmSync(tempPath, { force: true });
+          this.logger.debug(`Removed stale upload temp file: ${name}`);
+        }
+      } catch {
+        // 已被其他请求处理
+      }
+    }
+  }
+
+  // 在接收内容之前检查目标目录、文件名和声明的大小（tus 创建上传时使用）
+  public checkUpload(originalName: string, size: number, folder = ''): UploadRejection | null {
+    if (sanitizeFolder(folder) === null) {
+      return { error: 'invalid_path', message: `Invalid upload folder: ${folder}` };
+    }
+    return this.policy.checkName(sanitizeFilename(originalName)) || this.policy.checkSize(size);
+  }
+
+  private hashFile(filePath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const hash = createHash('sha256');
+      createReadStream(filePath)
+        .on('data', chunk => hash.update(chunk))
+        .on('end', () => resolve(hash.digest('hex')))
+        .on('error', reject);
+    });
+  }
+
+  // 返回内容相同且仍然存在的已上传文件，索引中过期的记录顺便删除
+  private findDuplicate(sha256: string): UploadRecord | undefined {
+    const existing = this.index.findByHash(sha256);
+    if (existing && !this.statFile(join(this.uploadDir, existing.filename))) {
+      this.index.remove(existing.filename);
+      return this.findDuplicate(sha256);
+    }
+    return existing;
+  }
+
+  private rejectUpload(tempPath: string, originalName: string, size: number, rejection: UploadRejection): UploadResult {
+    this.logger.warn(`Upload rejected (${rejection.error}): ${rejection.message}`);
+    try {
+      unlinkSync(tempPath);
+    } catch {
+      // 临时文件可能已被删除
+    }
+
+    return {
+      success: false,
+      filename: '',
+      originalName,
+      size,
+      message: rejection.message,
+      error: rejection.error
+    };
+  }
+
+  // 将临时文件移动到上传目录的 folder 子目录（处理重名）、生成 gzip 版本并写入元数据索引，multipart 和 tus 上传共用
+  public async finalizeUpload(tempPath: string, details: UploadDetails): Promise<UploadResult> {
+    const { originalName, folder = '' } = details;
+
     try {
-      // 保留原始文件名，但处理冲突
-      const originalName = file.originalFilename || 'unknown';
-      const uniqueFilename = this.generateUniqueFilename(originalName);
+      // 按上传策略检查目标目录、文件名、大小、容量和实际内容类型
+      const tempSize = statSync(tempPath).size;
+      const safeName = sanitizeFilename(originalName);
+      const mimeType = sniffMimeType(tempPath, safeName);
+      const rejection = this.checkUpload(originalName, tempSize, folder) || this.policy.checkMimeType(mimeType, safeName);
+      if (rejection) {
+        return this.rejectUpload(tempPath, originalName, tempSize, rejection);
+      }
+
+      const sha256 = await this.hashFile(tempPath);
+      const duplicate = this.deduplicate ? this.findDuplicate(sha256) : undefined;
+      if (duplicate) {
+        unlinkSync(tempPath);
+        this.logger.info(`Duplicate upload of ${duplicate.filename} skipped: ${originalName}`);
+        return {
+          success: true,
+          filename: duplicate.filename,
+          originalName,
+          size: tempSize,
+          sha256,
+          mimeType,
+          duplicate: true,
+          message: `Identical content is already stored as ${duplicate.filename}`
+        };
+      }
+
+      // 子目录按需创建
+      const safeFolder = sanitizeFolder(folder) || '';
+      const targetDir = join(this.uploadDir, safeFolder);
+      mkdirSync(targetDir, { recursive: true });
+
+      // 保留清理后的原始文件名；开启版本历史时替换同名文件并归档旧版本，否则追加序号
+      const replaceExisting = this.versioning.enabled && this.statFile(join(targetDir, safeName)) !== null;
+      const storedName = replaceExisting ? safeName : this.generateUniqueFilename(targetDir, safeName);
+      const uniqueFilename = (safeFolder ? `${safeFolder}/` : '') + storedName;
       const targetPath = join(this.uploadDir, uniqueFilename);
+      const history = replaceExisting ? await this.archiveCurrent(targetPath) : [];
 
       // 移动文件到目标位置
       await new Promise<void>((resolve, reject) => {
-        const readStream = createReadStream(file.filepath);
+        const readStream = createReadStream(tempPath);
         const writeStream = createWriteStream(targetPath);
 
         pipeline(readStream, writeStream, (err) => {
@@ -138,20 +347,37 @@ export class UploadHandler {
         this.logger.warn(`Gzip compression failed for ${uniqueFilename}:`, gzipError as Error);
       }
 
-      // 清理formidable的临时文件
+      // 清理临时文件
       try {
-        unlinkSync(file.filepath);
+        unlinkSync(tempPath);
       } catch (cleanupError) {
-        this.logger.warn(`Failed to cleanup temp file ${file.filepath}:`, cleanupError as Error);
+        this.logger.warn(`Failed to cleanup temp file ${tempPath}:`, cleanupError as Error);
       }
 
+      const now = new Date().toISOString();
+      this.index.add({
+        filename: uniqueFilename,
+        originalName,
+        size: fileSize,
+        sha256,
+        mimeType,
+        uploaderIp: details.uploaderIp ?? null,
+        tags: details.tags || [],
+        uploadedAt: now,
+        updatedAt: now,
+        ...(history.length > 0 ? { versions: history } : {})
+      });
+      this.applyRetention(uniqueFilename);
+
       return {
         success: true,
         filename: uniqueFilename,
         originalName,
         size: fileSize,
         gzipSize,
-        compressionRatio
+        compressionRatio,
+        sha256,
+        mimeType
       };
 
     } catch (error) {
@@ -159,7 +385,7 @@ export class UploadHandler {
 
       // 确保清理临时文件，即使出错也要清理
       try {
-        unlinkSync(file.filepath);
+        unlinkSync(tempPath);
       } catch (cleanupError) {
         // 忽略清理错误
       }
@@ -167,8 +393,173 @@ export class UploadHandler {
       return {
         success: false,
         filename: '',
-        originalName: file.originalFilename || 'unknown',
+        originalName,
         size: 0,
+        message: error instanceof Error ? error.message : 'Unknown error',
+        error: 'upload_failed'
+      };
+    }
+  }
+
+  private async handleSingleFile(file: File, details: Omit<UploadDetails, 'originalName'>): Promise<UploadResult> {
+    return this.finalizeUpload(file.filepath, { ...details, originalName: file.originalFilename || 'unknown' });
+  }
+
+  private async handleArchive(file: File, details: Omit<UploadDetails, 'originalName'>, target: string): Promise<UploadResult> {
+    return this.extractUpload(file.filepath, { ...details, originalName: file.originalFilename || 'unknown' }, target);
+  }
+
+  // 解压上传的压缩包到 uploadDir 或 rootDir 下的 folder 子目录（默认为去掉扩展名的压缩包名），
+  // 先解压到临时目录，压缩包有效且未超出限制时才移动到目标位置；压缩包本身不保存
+  public async extractUpload(tempPath: string, details: UploadDetails, target: string): Promise<UploadResult> {
+    const { originalName } = details;
+    const archiveSize = statSync(tempPath).size;
+
+    if (!this.extraction.enabled || (target === 'root' && !this.extraction.allowRootDir)) {
+      return this.rejectUpload(tempPath, originalName, archiveSize, {
+        error: 'extraction_not_allowed',
+        message: target === 'root' ? 'Extracting into rootDir is not allowed' : 'Archive extraction is disabled'
+      });
+    }
+    if (target !== 'upload' && target !== 'root') {
+      return this.rejectUpload(tempPath, originalName, archiveSize, {
+        error: 'invalid_path',
+        message: `Unknown extraction target: ${target} (expected upload or root)`
+      });
+    }
+
+    const format = archiveFormat(sniffMimeType(tempPath, originalName));
+    if (!format) {
+      return this.rejectUpload(tempPath, originalName, archiveSize, {
+        error: 'invalid_archive',
+        message: `Not a .zip, .tar or .tar.gz archive: ${originalName}`
+      });
+    }
+
+    const defaultFolder = sanitizeFilename(originalName).replace(/\.(zip|tar|tgz|tar\.gz)$/i, '');
+    const folder = sanitizeFolder(details.folder || defaultFolder);
+    if (folder === null) {
+      return this.rejectUpload(tempPath, originalName, archiveSize, {
+        error: 'invalid_path',
+        message: `Invalid extraction folder: ${details.folder}`
+      });
+    }
+
+    const stagingDir = mkdtempSync(join(this.uploadDir, INCOMING_DIR, 'extract-'));
+    try {
+      const extraction = await extractArchive(tempPath, format, stagingDir, {
+        maxEntries: this.extraction.maxEntries,
+        maxEntrySize: this.policy.maxFileSize,
+        maxTotalSize: this.extraction.maxTotalSize,
+        maxRatio: this.extraction.maxRatio
+      });
+      if (!extraction.ok) {
+        return this.rejectUpload(tempPath, originalName, archiveSize, extraction.rejection);
+      }
+
+      // 解压到 uploadDir 时整个压缩包的内容计入容量配额
+      const extractedSize = extraction.entries.reduce((total, entry) => total + (entry.success ? entry.size : 0), 0);
+      const quotaRejection = target === 'upload' ? this.policy.checkQuota(extractedSize) : null;
+      if (quotaRejection) {
+        return this.rejectUpload(tempPath, originalName, archiveSize, quotaRejection);
+      }
+
+      const entries: ExtractedEntry[] = [];
+      for (const entry of extraction.entries) {
+        entries.push(entry.success ? await this.installEntry(stagingDir, entry, target, folder, details) : entry);
+      }
+      unlinkSync(tempPath);
+
+      const installed = entries.filter(entry => entry.success).length;
+      this.logger.info(`Archive ${originalName} extracted to ${target === 'root' ? 'rootDir' : 'uploadDir'}/${folder}: ${installed}/${entries.length} files`);
+
+      return {
+        success: installed > 0 || entries.length === 0,
+        filename: folder,
+        originalName,
+        size: archiveSize,
+        message: `${installed}/${entries.length} files extracted`,
+        extractedTo: { target, folder },
+        entries
+      };
+    } catch (error) {
+      this.logger.error(`Archive extraction error for ${originalName}:`, error as Error);
+      rmSync(tempPath, { force: true });
+      return {
+        success: false,
+        filename: '',
+        originalName,
+        size: archiveSize,
+        message: error instanceof Error ? error.message : 'Unknown error',
+        error: 'upload_failed'
+      };
+    } finally {
+      rmSync(stagingDir, { recursive: true, force: true });
+    }
+  }
+
+  // 按上传策略检查解压出的文件并移动到目标位置，可压缩的文件生成 .gz 版本；
+  // 解压到 uploadDir 时同时写入元数据索引（不去重），开启版本历史时保留被覆盖的旧版本
+  private async installEntry(
+    stagingDir: string,
+    entry: ArchiveEntry,
+    target: ExtractTarget,
+    folder: string,
+    details: UploadDetails
+  ): Promise<ExtractedEntry> {
+    const sourcePath = stagedPath(stagingDir, entry);
+    const name = basename(sourcePath);
+    const mimeType = sniffMimeType(sourcePath, name);
+    const rejection = this.policy.checkName(name) || this.policy.checkMimeType(mimeType, entry.path);
+    if (rejection) {
+      return { ...entry, success: false, error: rejection.error, message: rejection.message };
+    }
+
+    const relativePath = folder ? `${folder}/${entry.path}` : entry.path;
+    const targetPath = join(target === 'root' ? this.rootDir : this.uploadDir, ...relativePath.split('/'));
+
+    try {
+      mkdirSync(dirname(targetPath), { recursive: true });
+      const existing = existsSync(targetPath);
+      if (existing && !this.statFile(targetPath)) {
+        return { ...entry, success: false, error: 'invalid_path', message: `A directory already exists at ${relativePath}` };
+      }
+
+      const history = target === 'upload' && existing && this.versioning.enabled ? await this.archiveCurrent(targetPath) : [];
+      moveFile(sourcePath, targetPath);
+      if (target === 'upload') {
+        rmSync(`${targetPath}.gz`, { force: true });
+      }
+
+      const result: ExtractedEntry = { ...entry, path: relativePath, mimeType };
+      if (shouldCompress(mimeType)) {
+        result.gzipSize = (await this.createGzipVersion(targetPath)).size;
+      }
+
+      if (target === 'upload') {
+        const now = new Date().toISOString();
+        this.index.add({
+          filename: relativePath,
+          originalName: basename(entry.name.replace(/\\/g, '/')),
+          size: entry.size,
+          sha256: await this.hashFile(targetPath),
+          mimeType,
+          uploaderIp: details.uploaderIp ?? null,
+          tags: details.tags || [],
+          uploadedAt: now,
+          updatedAt: now,
+          ...(history.length > 0 ? { versions: history } : {})
+        });
+        this.applyRetention(relativePath);
+      }
+
+      return result;
+    } catch (error) {
+      this.logger.warn(`Failed to extract ${entry.name}:`, error as Error);
+      return {
+        ...entry,
+        success: false,
+        error: 'upload_failed',
         message: error instanceof Error ? error.message : 'Unknown error'
       };
     }
@@ -177,24 +568,83 @@ export class UploadHandler {
   public async handleUpload(req: IncomingMessage, res: ServerResponse): Promise<void> {
     // 设置响应头
     res.setHeader('Content-Type', 'application/json');
-    res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+    // 可选的 uploadId 查询参数，用于通过 <apiPrefix>/progress/<uploadId> 订阅服务端接收进度；
+    // 表单字段要等请求体解析完成后才能读取，因此只能放在查询参数中
+    const query = new URL(req.url || '/', 'http://localhost').searchParams;
+    const uploadId = query.get('uploadId');
+    if (uploadId !== null && !isValidUploadId(uploadId)) {
+      sendJsonError(res, 400, 'invalid_upload_id', 'Upload ID must be 1-64 characters of A-Z, a-z, 0-9, "_" or "-"');
+      return;
+    }
+    const tracked = uploadId !== null && this.progress.begin(uploadId);
 
     try {
+      const incomingDir = join(this.uploadDir, INCOMING_DIR);
+      mkdirSync(incomingDir, { recursive: true });
+      this.removeStaleIncoming(incomingDir);
+
+      // 单个文件的大小限制在 finalizeUpload 中逐个检查，这样超限的文件不会导致整个请求失败
       const form = new Formidable({
-        uploadDir: this.uploadDir,
+        uploadDir: incomingDir,
         keepExtensions: true,
-        maxFileSize: 100 * 1024 * 1024, // 100MB
+        maxFiles: this.policy.maxFiles,
+        maxFileSize: this.policy.maxRequestSize,
+        maxTotalFileSize: this.policy.maxRequestSize,
         multiples: true
       });
+      if (tracked) {
+        form.on('progress', (bytesReceived: number, bytesExpected: number) => {
+          this.progress.progress(uploadId, bytesReceived, bytesExpected);
+        });
+      }
 
-      const [fields, files] = await form.parse(req);
-      const uploadedFiles = Array.isArray(files.files) ? files.files : [files.files].filter(Boolean);
+      let fields: Fields;
+      let files: Files;
+      try {
+        [fields, files] = await form.parse(req);
+      } catch (error) {
+        const { code, httpCode } = error as { code?: number; httpCode?: number };
+        if (httpCode !== 413) {
+          throw error;
+        }
+
+        const rejection: UploadRejection = code === FORMIDABLE_MAX_FILES_EXCEEDED
+          ? { error: 'too_many_files', message: `Too many files in one request (limit ${this.policy.maxFiles})` }
+          : { error: 'request_too_large', message: `Request exceeds the limit of ${this.policy.maxRequestSize} bytes` };
+        this.logger.warn(`Upload rejected (${rejection.error}): ${rejection.message}`);
+        if (tracked) {
+          this.progress.finish(uploadId, false, rejection.message);
+        }
+        sendJsonError(res, 413, rejection.error, rejection.message);
+        return;
+      }
+
+      // 请求体已全部接收，之后是校验、去重和生成压缩版本
+      if (tracked) {
+        this.progress.processing(uploadId);
+      }
+
+      const uploadedFiles: File[] = files.files || [];
       const results: UploadResult[] = [];
 
+      // 表单字段优先，其次是同名查询参数
+      const option = (name: string) => fields[name]?.[0] ?? query.get(name) ?? '';
+
+      // 可选的 path 字段指定上传到 uploadDir 下的子目录，tags 字段为逗号分隔的标签
+      const details = {
+        folder: option('path'),
+        uploaderIp: req.socket.remoteAddress || null,
+        tags: parseTags(fields.tags)
+      };
+
+      // extract=true 时解压上传的压缩包，target 为 upload（默认）或 root
+      const extract = /^(1|true|yes)$/i.test(option('extract'));
+
       for (const file of uploadedFiles) {
-        const result = await this.handleSingleFile(file);
+        const result = extract
+          ? await this.handleArchive(file, details, option('target') || 'upload')
+          : await this.handleSingleFile(file, details);
         results.push(result);
       }
 
@@ -205,11 +655,17 @@ export class UploadHandler {
         results
       };
 
+      if (tracked) {
+        this.progress.finish(uploadId, response.success, response.message);
+      }
       res.writeHead(200);
       res.end(JSON.stringify(response, null, 2));
 
     } catch (error) {
       this.logger.error('Upload handling error:', error as Error);
+      if (tracked) {
+        this.progress.finish(uploadId, false, 'Upload failed');
+      }
 
       res.writeHead(500);
       res.end(JSON.stringify({
@@ -220,65 +676,608 @@ export class UploadHandler {
     }
   }
 
+  // 收集 folder 目录中的文件和子目录，recursive 时包含所有下级目录
+  private collectFiles(folder: string, recursive: boolean, list: FileList): void {
+    const dir = join(this.uploadDir, folder);
+
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      // 跳过隐藏条目（如未完成的 tus 上传和 multipart 临时文件）
+      if (entry.name.startsWith('.')) continue;
+
+      const relativePath = folder ? `${folder}/${entry.name}` : entry.name;
+      const filePath = join(dir, entry.name);
+
+      if (entry.isDirectory()) {
+        list.folders.push(relativePath);
+        if (recursive) {
+          this.collectFiles(relativePath, recursive, list);
+        }
+        continue;
+      }
+
+      // 跳过gzip副本
+      if (!entry.isFile() || this.isSidecar(filePath)) continue;
+
+      try {
+        const gzipPath = `${filePath}.gz`;
+        const stats = statSync(filePath);
+        let gzipStats = null;
+
+        try {
+          gzipStats = statSync(gzipPath);
+        } catch {}
+
+        const compressionRatio = gzipStats
+          ? Math.round((1 - gzipStats.size / stats.size) * 100)
+          : 0;
+
+        // 索引中没有记录的文件（例如手动复制进来的）使用文件系统中的信息
+        const record = this.index.get(relativePath);
+
+        list.files.push({
+          filename: relativePath,
+          folder,
+          originalName: record?.originalName || entry.name,
+          size: stats.size,
+          gzipSize: gzipStats?.size || 0,
+          compressionRatio,
+          uploadTime: record?.uploadedAt || stats.mtime.toISOString(),
+          sha256: record?.sha256 || null,
+          mimeType: record?.mimeType || getMimeType(entry.name),
+          uploaderIp: record?.uploaderIp || null,
+          tags: record?.tags || []
+        });
+      } catch (error) {
+        this.logger.warn(`Error reading file ${relativePath}:`, error as Error);
+      }
+    }
+  }
+
+  private parseFilter(query: URLSearchParams): FileFilter | null {
+    const parseDate = (value: string | null) => value === null ? null : Date.parse(value);
+    const filter: FileFilter = {
+      name: query.get('name')?.toLowerCase() || null,
+      mime: query.get('mime'),
+      tags: parseTags(query.getAll('tag')),
+      sha256: query.get('sha256')?.toLowerCase() || null,
+      uploader: query.get('uploader'),
+      since: parseDate(query.get('since')),
+      until: parseDate(query.get('until'))
+    };
+
+    return Number.isNaN(filter.since) || Number.isNaN(filter.until) ? null : filter;
+  }
+
+  private matchesFilter(file: FileList['files'][number], filter: FileFilter): boolean {
+    const uploadTime = Date.parse(file.uploadTime);
+    return (filter.name === null || file.originalName.toLowerCase().includes(filter.name) || file.filename.toLowerCase().includes(filter.name))
+      && (filter.mime === null || matchesMimeType(file.mimeType, [filter.mime]))
+      && filter.tags.every(tag => file.tags.includes(tag))
+      && (filter.sha256 === null || file.sha256 === filter.sha256)
+      && (filter.uploader === null || file.uploaderIp === filter.uploader)
+      && (filter.since === null || uploadTime >= filter.since)
+      && (filter.until === null || uploadTime <= filter.until);
+  }
+
+  // 支持 ?folder=<子目录>、?recursive=true 以及按名称、MIME 类型、标签、哈希、上传者 IP 和上传时间过滤
   public async handleFileList(req: IncomingMessage, res: ServerResponse): Promise<void> {
     try {
-      const fileList: FileList['files'] = [];
+      const query = new URL(req.url || '/', 'http://localhost').searchParams;
+      const requestedFolder = query.get('folder') || '';
+      const recursive = query.get('recursive') === 'true' || query.get('recursive') === '1';
 
-      // 读取上传目录中的所有文件
-      const fileNames = readdirSync(this.uploadDir);
+      const folder = sanitizeFolder(requestedFolder);
+      if (folder === null || folder !== requestedFolder.replace(/^\/+|\/+$/g, '')) {
+        sendJsonError(res, 400, 'invalid_path', `Invalid folder: ${requestedFolder}`);
+        return;
+      }
 
-      for (const fileName of fileNames) {
-        // 跳过gzip文件
-        if (fileName.endsWith('.gz')) continue;
+      if (folder && !statSync(join(this.uploadDir, folder), { throwIfNoEntry: false })?.isDirectory()) {
+        sendJsonError(res, 404, 'not_found', `Folder not found: ${folder}`);
+        return;
+      }
 
-        try {
-          const filePath = join(this.uploadDir, fileName);
-          const gzipPath = `${filePath}.gz`;
-          const stats = statSync(filePath);
-          let gzipStats = null;
-
-          try {
-            gzipStats = statSync(gzipPath);
-          } catch {}
-
-          const compressionRatio = gzipStats
-            ? Math.round((1 - gzipStats.size / stats.size) * 100)
-            : 0;
-
-          // 直接使用文件名作为原始名称，因为我们保留了原始文件名
-          const originalName = fileName;
-
-          fileList.push({
-            filename: fileName,
-            originalName,
-            size: stats.size,
-            gzipSize: gzipStats?.size || 0,
-            compressionRatio,
-            uploadTime: stats.mtime.toISOString()
-          });
-        } catch (error) {
-          this.logger.warn(`Error reading file ${fileName}:`, error as Error);
-        }
+      const filter = this.parseFilter(query);
+      if (!filter) {
+        sendJsonError(res, 400, 'invalid_query', 'since/until must be valid dates');
+        return;
       }
 
+      const fileList: FileList = { folder, folders: [], files: [] };
+      this.collectFiles(folder, recursive, fileList);
+      fileList.files = fileList.files.filter(file => this.matchesFilter(file, filter));
+
       // 按上传时间倒序排列
-      fileList.sort((a, b) => new Date(b.uploadTime).getTime() - new Date(a.uploadTime).getTime());
+      fileList.files.sort((a, b) => new Date(b.uploadTime).getTime() - new Date(a.uploadTime).getTime());
+      fileList.folders.sort();
 
-      res.setHeader('Content-Type', 'application/json');
-      res.setHeader('Access-Control-Allow-Origin', '*');
-      res.writeHead(200);
-      res.end(JSON.stringify({ files: fileList }));
+      sendJson(res, 200, fileList);
 
     } catch (error) {
       this.logger.error('File list error:', error as Error);
+      sendJsonError(res, 500, 'internal_error', error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
 
-      res.setHeader('Content-Type', 'application/json');
-      res.writeHead(500);
-      res.end(JSON.stringify({
-        success: false,
-        message: 'Failed to get file list',
-        error: error instanceof Error ? error.message : 'Unknown error'
-      }));
+  // 将 API 路径中的文件名解析为上传目录内的绝对路径；越界或隐藏的路径返回 null
+  private resolveStoredPath(name: string): string | null {
+    const segments = name.split('/').filter(segment => segment !== '');
+    if (segments.length === 0) {
+      return null;
+    }
+
+    // 以 . 开头的条目（包括 . 和 ..）属于内部数据，例如未完成的 tus 上传
+    if (segments.some(segment => segment.startsWith('.') || segment.includes('\\') || segment.includes('\0'))) {
+      return null;
     }
+
+    const root = resolve(this.uploadDir);
+    const target = resolve(root, ...segments);
+    return target.startsWith(root + sep) ? target : null;
+  }
+
+  private toStoredName(filePath: string): string {
+    return relative(resolve(this.uploadDir), filePath).split(sep).join('/');
+  }
+
+  // 已有原文件的 .gz 是自动生成的压缩副本，不作为独立文件对外暴露
+  private isSidecar(filePath: string): boolean {
+    return filePath.endsWith('.gz') && existsSync(filePath.slice(0, -'.gz'.length));
   }
-}
\ No newline at end of file
+
+  private statFile(filePath: string): Stats | null {
+    try {
+      const stats = statSync(filePath);
+      return stats.isFile() ? stats : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private sendNotFound(res: ServerResponse, name: string): void {
+    sendJsonError(res, 404, 'not_found', `File not found: ${name}`);
+  }
+
+  // 单个上传文件的下载、删除、重命名和移动
+  public async handleFileRequest(req: IncomingMessage, res: ServerResponse, name: string): Promise<void> {
+    const filePath = this.resolveStoredPath(name);
+
+    try {
+      if (req.method === 'OPTIONS') {
+        res.writeHead(204, { 'Allow': FILE_METHODS });
+        res.end();
+        return;
+      }
+
+      if (!filePath || this.isSidecar(filePath)) {
+        this.sendNotFound(res, name);
+        return;
+      }
+
+      switch (req.method) {
+        case 'GET':
+        case 'HEAD':
+          this.sendStoredFile(req, res, filePath, name);
+          break;
+        case 'DELETE':
+          this.deleteStoredFile(res, filePath, name);
+          break;
+        case 'PATCH':
+          await this.moveStoredFile(req, res, filePath, name);
+          break;
+        default:
+          sendJsonError(res, 405, 'method_not_allowed', `Method ${req.method} is not allowed for files`, { 'Allow': FILE_METHODS });
+      }
+    } catch (error) {
+      this.logger.error(`File request error for ${name}:`, error as Error);
+      if (!res.headersSent) {
+        sendJsonError(res, 500, 'internal_error', error instanceof Error ? error.message : 'Unknown error');
+      } else {
+        res.destroy();
+      }
+    }
+  }
+
+  private sendStoredFile(req: IncomingMessage, res: ServerResponse, filePath: string, name: string): void {
+    const stats = this.statFile(filePath);
+    if (!stats) {
+      this.sendNotFound(res, name);
+      return;
+    }
+
+    // 只使用不比原文件旧的 gzip 副本
+    const gzipPath = `${filePath}.gz`;
+    const gzipStats = this.statFile(gzipPath);
+    const hasSidecar = gzipStats !== null && gzipStats.mtimeMs >= stats.mtimeMs;
+
+    if (hasSidecar) {
+      appendVary(res, 'Accept-Encoding');
+    }
+
+    const encoding = hasSidecar ? negotiateEncoding(req, ['gzip']) : 'identity';
+    if (encoding === null) {
+      sendJsonError(res, 406, 'not_acceptable', 'No acceptable content encoding available');
+      return;
+    }
+
+    const useGzip = encoding === 'gzip' && gzipStats !== null;
+    const baseETag = `"${stats.size}-${stats.mtime.getTime()}"`;
+    const etag = useGzip ? encodingETag(baseETag, 'gzip') : baseETag;
+
+    const precondition = evaluatePreconditions(req, { etag, lastModified: stats.mtime });
+    if (precondition === 'not-modified') {
+      res.writeHead(304, { 'ETag': etag, 'Last-Modified': stats.mtime.toUTCString() });
+      res.end();
+      return;
+    }
+    if (precondition === 'precondition-failed') {
+      sendJsonError(res, 412, 'precondition_failed', `Precondition failed for ${name}`);
+      return;
+    }
+
+    const headers: Record<string, string | number> = {
+      'Content-Type': getMimeType(filePath),
+      'Content-Length': useGzip ? gzipStats.size : stats.size,
+      // 优先使用上传时的原始文件名
+      'Content-Disposition': contentDisposition(this.index.get(this.toStoredName(filePath))?.originalName || filePath),
+      'Last-Modified': stats.mtime.toUTCString(),
+      'ETag': etag,
+      'Cache-Control': 'no-cache'
+    };
+    if (useGzip) {
+      headers['Content-Encoding'] = 'gzip';
+    }
+
+    res.writeHead(200, headers);
+
+    if (req.method === 'HEAD') {
+      res.end();
+      return;
+    }
+
+    pipeline(createReadStream(useGzip ? gzipPath : filePath), res, (err) => {
+      if (err) {
+        this.logger.debug(`File download interrupted: ${name} (${err.message})`);
+      }
+    });
+  }
+
+  private deleteStoredFile(res: ServerResponse, filePath: string, name: string): void {
+    if (!this.statFile(filePath)) {
+      this.sendNotFound(res, name);
+      return;
+    }
+
+    unlinkSync(filePath);
+    if (existsSync(`${filePath}.gz`)) {
+      unlinkSync(`${filePath}.gz`);
+    }
+
+    const filename = this.toStoredName(filePath);
+    this.index.remove(filename);
+    this.versions.removeAll(filename);
+    this.logger.info(`File deleted: ${filename}`);
+    sendJson(res, 200, { success: true, filename, message: `Deleted ${filename}` });
+  }
+
+  // 为索引中没有记录的文件补建记录（例如手动复制进来的文件）
+  private async ensureRecord(filePath: string): Promise<UploadRecord> {
+    const filename = this.toStoredName(filePath);
+    const existing = this.index.get(filename);
+    if (existing) {
+      return existing;
+    }
+
+    const stats = statSync(filePath);
+    const record: UploadRecord = {
+      filename,
+      originalName: basename(filePath),
+      size: stats.size,
+      sha256: await this.hashFile(filePath),
+      mimeType: sniffMimeType(filePath, basename(filePath)),
+      uploaderIp: null,
+      tags: [],
+      uploadedAt: stats.mtime.toISOString(),
+      updatedAt: new Date().toISOString()
+    };
+    this.index.add(record);
+    return record;
+  }
+
+  // 请求体 { "name": "新文件名" } 在原目录内重命名，{ "path": "目录/新文件名" } 移动到其他位置，
+  // { "tags": [...] } 替换标签；重命名/移动和标签可以在同一请求中修改
+  private async moveStoredFile(req: IncomingMessage, res: ServerResponse, filePath: string, name: string): Promise<void> {
+    const body = await readJsonBody(req);
+    if (!body.ok) {
+      sendJsonError(res, body.statusCode, 'invalid_body', body.message);
+      return;
+    }
+
+    if (!this.statFile(filePath)) {
+      this.sendNotFound(res, name);
+      return;
+    }
+
+    const { name: newName, path: newPath, tags, overwrite = false } = (body.value ?? {}) as Record<string, unknown>;
+    if (typeof newName === 'string' && typeof newPath === 'string') {
+      sendJsonError(res, 400, 'invalid_body', 'Request body must not contain both "name" and "path"');
+      return;
+    }
+    if (typeof newName !== 'string' && typeof newPath !== 'string' && tags === undefined) {
+      sendJsonError(res, 400, 'invalid_body', 'Request body must contain "name", "path" or "tags"');
+      return;
+    }
+    if (tags !== undefined && !(Array.isArray(tags) && tags.every(tag => typeof tag === 'string'))) {
+      sendJsonError(res, 400, 'invalid_body', '"tags" must be an array of strings');
+      return;
+    }
+    if (typeof overwrite !== 'boolean') {
+      sendJsonError(res, 400, 'invalid_body', '"overwrite" must be a boolean');
+      return;
+    }
+    if (typeof newName === 'string' && newName.includes('/')) {
+      sendJsonError(res, 400, 'invalid_name', '"name" must not contain "/"; use "path" to move files');
+      return;
+    }
+
+    const source = this.toStoredName(filePath);
+    let targetPath = filePath;
+
+    if (typeof newName === 'string' || typeof newPath === 'string') {
+      const requested = typeof newName === 'string'
+        ? [dirname(source), newName].filter(part => part !== '.').join('/')
+        : newPath as string;
+      const sanitized = sanitizeUploadPath(requested);
+      const resolved = sanitized === null ? null : this.resolveStoredPath(sanitized);
+
+      if (!resolved || resolved.endsWith('.gz') && existsSync(resolved.slice(0, -'.gz'.length))) {
+        sendJsonError(res, 400, 'invalid_name', `Invalid target name: ${requested}`);
+        return;
+      }
+      targetPath = resolved;
+    }
+
+    const target = this.toStoredName(targetPath);
+    if (targetPath !== filePath) {
+      const targetExists = existsSync(targetPath);
+      if (targetExists && !this.statFile(targetPath)) {
+        sendJsonError(res, 409, 'conflict', `Target is a directory: ${target}`);
+        return;
+      }
+      if (!overwrite && (targetExists || existsSync(`${targetPath}.gz`))) {
+        sendJsonError(res, 409, 'conflict', `Target already exists: ${target}`);
+        return;
+      }
+
+      mkdirSync(dirname(targetPath), { recursive: true });
+      renameSync(filePath, targetPath);
+
+      // gzip 副本跟随原文件移动；没有副本时删除目标位置上过期的副本
+      if (existsSync(`${filePath}.gz`)) {
+        renameSync(`${filePath}.gz`, `${targetPath}.gz`);
+      } else if (existsSync(`${targetPath}.gz`)) {
+        unlinkSync(`${targetPath}.gz`);
+      }
+
+      this.index.rename(source, target);
+      this.versions.move(source, target);
+      this.logger.info(`File moved: ${source} -> ${target}`);
+    }
+
+    let record = await this.ensureRecord(targetPath);
+    if (tags !== undefined) {
+      record = this.index.update(target, { tags: parseTags(tags as string[]) }) || record;
+    }
+
+    sendJson(res, 200, {
+      success: true,
+      ...record,
+      previousName: source,
+      uploadTime: record.uploadedAt
+    });
+  }
+
+  // 将当前文件移入历史版本目录，返回包含该版本的版本列表（从新到旧）
+  private async archiveCurrent(filePath: string): Promise<VersionRecord[]> {
+    const record = await this.ensureRecord(filePath);
+    const version = this.versions.archive(filePath, record.filename, {
+      originalName: record.originalName,
+      size: record.size,
+      sha256: record.sha256,
+      mimeType: record.mimeType,
+      uploaderIp: record.uploaderIp,
+      uploadedAt: record.uploadedAt
+    });
+    rmSync(`${filePath}.gz`, { force: true });
+
+    this.logger.info(`Archived version ${version.id} of ${record.filename}`);
+    return [version, ...(record.versions || [])];
+  }
+
+  // 按 versioning.maxVersions 和 versioning.maxAge 自动清理
+  private applyRetention(filename: string): void {
+    const { maxVersions, maxAge } = this.versioning;
+    const record = this.index.get(filename);
+    if (!record?.versions?.length || (maxVersions === null && maxAge === null)) {
+      return;
+    }
+
+    const { kept, removed } = this.versions.prune(filename, record.versions, { keep: maxVersions, maxAge });
+    if (removed.length > 0) {
+      this.index.update(filename, { versions: kept });
+      this.logger.debug(`Pruned ${removed.length} old version(s) of ${filename}`);
+    }
+  }
+
+  // <apiPrefix>/versions/<name>：GET 列出版本（?version=<id> 下载指定版本），POST ?version=<id> 恢复，
+  // DELETE ?version=<id> 删除指定版本，DELETE ?keep=<n>&olderThan=<毫秒> 按数量或时间清理；
+  // name 为空时 DELETE 清理所有文件的历史版本
+  public async handleVersionRequest(req: IncomingMessage, res: ServerResponse, name: string): Promise<void> {
+    try {
+      if (req.method === 'OPTIONS') {
+        res.writeHead(204, { 'Allow': name ? VERSION_METHODS : 'DELETE, OPTIONS' });
+        res.end();
+        return;
+      }
+
+      const query = new URL(req.url || '/', 'http://localhost').searchParams;
+
+      if (!name) {
+        if (req.method === 'DELETE') {
+          this.pruneVersions(res, this.index.all().map(record => record.filename), query);
+        } else {
+          sendJsonError(res, 405, 'method_not_allowed', `Method ${req.method} is not allowed for versions`, { 'Allow': 'DELETE, OPTIONS' });
+        }
+        return;
+      }
+
+      const filePath = this.resolveStoredPath(name);
+      const record = filePath ? this.index.get(this.toStoredName(filePath)) : undefined;
+      if (!filePath || this.isSidecar(filePath) || (!record && !this.statFile(filePath))) {
+        this.sendNotFound(res, name);
+        return;
+      }
+
+      const filename = this.toStoredName(filePath);
+      const history = record?.versions || [];
+      const versionId = query.get('version');
+      const version = versionId === null ? undefined : history.find(candidate => candidate.id === versionId);
+      if (versionId !== null && (!version || !this.versions.exists(filename, versionId))) {
+        sendJsonError(res, 404, 'not_found', `Version not found: ${versionId}`);
+        return;
+      }
+
+      switch (req.method) {
+        case 'GET':
+        case 'HEAD':
+          if (version) {
+            this.sendVersion(req, res, filename, version);
+          } else {
+            const current = record ? { ...record, versions: undefined } : null;
+            sendJson(res, 200, { filename, current, versions: history });
+          }
+          break;
+        case 'POST':
+          if (!version) {
+            sendJsonError(res, 400, 'invalid_query', 'Specify the version to restore with ?version=<id>');
+            return;
+          }
+          await this.restoreVersion(res, filePath, filename, version);
+          break;
+        case 'DELETE':
+          if (version) {
+            this.versions.remove(filename, version.id);
+            this.index.update(filename, { versions: history.filter(candidate => candidate.id !== version.id) });
+            this.logger.info(`Version deleted: ${filename}@${version.id}`);
+            sendJson(res, 200, { success: true, removed: [{ filename, id: version.id }] });
+          } else {
+            this.pruneVersions(res, [filename], query);
+          }
+          break;
+        default:
+          sendJsonError(res, 405, 'method_not_allowed', `Method ${req.method} is not allowed for versions`, { 'Allow': VERSION_METHODS });
+      }
+    } catch (error) {
+      this.logger.error(`Version request error for ${name}:`, error as Error);
+      if (!res.headersSent) {
+        sendJsonError(res, 500, 'internal_error', error instanceof Error ? error.message : 'Unknown error');
+      } else {
+        res.destroy();
+      }
+    }
+  }
+
+  private sendVersion(req: IncomingMessage, res: ServerResponse, filename: string, version: VersionRecord): void {
+    const etag = `"${version.sha256}"`;
+    const lastModified = new Date(version.uploadedAt);
+
+    // 历史版本内容不会再变化
+    const headers: Record<string, string | number> = {
+      'ETag': etag,
+      'Last-Modified': lastModified.toUTCString(),
+      'Cache-Control': 'private, max-age=31536000, immutable'
+    };
+
+    if (evaluatePreconditions(req, { etag, lastModified }) === 'not-modified') {
+      res.writeHead(304, headers);
+      res.end();
+      return;
+    }
+
+    res.writeHead(200, {
+      ...headers,
+      'Content-Type': version.mimeType,
+      'Content-Length': version.size,
+      'Content-Disposition': contentDisposition(version.originalName)
+    });
+
+    if (req.method === 'HEAD') {
+      res.end();
+      return;
+    }
+
+    pipeline(createReadStream(this.versions.path(filename, version.id)), res, (err) => {
+      if (err) {
+        this.logger.debug(`Version download interrupted: ${filename}@${version.id} (${err.message})`);
+      }
+    });
+  }
+
+  // 恢复时当前文件先归档为新版本，再复制被恢复的版本作为当前文件
+  private async restoreVersion(res: ServerResponse, filePath: string, filename: string, version: VersionRecord): Promise<void> {
+    const current = this.index.get(filename);
+    const history = this.statFile(filePath) ? await this.archiveCurrent(filePath) : (current?.versions || []);
+
+    mkdirSync(dirname(filePath), { recursive: true });
+    copyFileSync(this.versions.path(filename, version.id), filePath);
+
+    try {
+      await this.createGzipVersion(filePath);
+    } catch (gzipError) {
+      this.logger.warn(`Gzip compression failed for ${filename}:`, gzipError as Error);
+    }
+
+    this.index.add({
+      filename,
+      originalName: version.originalName,
+      size: version.size,
+      sha256: version.sha256,
+      mimeType: version.mimeType,
+      uploaderIp: version.uploaderIp,
+      tags: current?.tags || [],
+      uploadedAt: version.uploadedAt,
+      updatedAt: new Date().toISOString(),
+      versions: history
+    });
+    this.applyRetention(filename);
+
+    this.logger.info(`Version restored: ${filename}@${version.id}`);
+    sendJson(res, 200, { success: true, ...this.index.get(filename), restoredFrom: version.id });
+  }
+
+  private pruneVersions(res: ServerResponse, filenames: string[], query: URLSearchParams): void {
+    const parseLimit = (value: string | null) => value === null ? null : /^\d+$/.test(value) ? Number(value) : NaN;
+    const keep = parseLimit(query.get('keep'));
+    const maxAge = parseLimit(query.get('olderThan'));
+
+    if ((keep === null && maxAge === null) || Number.isNaN(keep) || Number.isNaN(maxAge)) {
+      sendJsonError(res, 400, 'invalid_query', 'Specify ?keep=<count> and/or ?olderThan=<milliseconds>');
+      return;
+    }
+
+    const removed: Array<{ filename: string; id: string }> = [];
+    for (const filename of filenames) {
+      const record = this.index.get(filename);
+      if (!record?.versions?.length) continue;
+
+      const result = this.versions.prune(filename, record.versions, { keep, maxAge });
+      if (result.removed.length > 0) {
+        this.index.update(filename, { versions: result.kept });
+        removed.push(...result.removed.map(version => ({ filename, id: version.id })));
+      }
+    }
+
+    this.logger.info(`Pruned ${removed.length} version(s)`);
+    sendJson(res, 200, { success: true, removed });
+  }
+}
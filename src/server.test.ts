@@ -0,0 +1,142 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { GzipStaticServer } from './server';
+import { mergeConfig } from './config';
+import { ServerConfig } from './types';
+import { freePort, request, TestRequest } from './test/http';
+
+const TOKEN = 's3cret';
+const PREFLIGHT = {
+  'Origin': 'http://evil.test',
+  'Access-Control-Request-Method': 'DELETE'
+};
+
+let baseDir: string;
+
+beforeAll(() => {
+  baseDir = mkdtempSync(join(tmpdir(), 'server-test-'));
+  writeFileSync(join(baseDir, 'index.html'), '<h1>hello</h1>');
+});
+
+afterAll(() => {
+  rmSync(baseDir, { recursive: true, force: true });
+});
+
+async function startServer(overrides: Partial<ServerConfig>): Promise<{ server: GzipStaticServer; port: number }> {
+  const port = await freePort();
+  const config = mergeConfig({
+    port,
+    host: '127.0.0.1',
+    rootDir: baseDir,
+    uploadDir: mkdtempSync(join(tmpdir(), 'server-test-uploads-')),
+    logLevel: 'error',
+    auth: { protect: 'api', realm: 'Test', users: [], tokens: [TOKEN] },
+    tus: { ...mergeConfig({}, {}).tus, enabled: true },
+    ...overrides
+  }, {});
+  const server = new GzipStaticServer(config);
+  await server.start();
+  return { server, port };
+}
+
+describe('authentication with CORS disabled', () => {
+  let server: GzipStaticServer;
+  let port: number;
+
+  const send = (path: string, options: TestRequest = {}) => request(port, path, options);
+  const authorized = { Authorization: `Bearer ${TOKEN}` };
+
+  beforeAll(async () => {
+    ({ server, port } = await startServer({ cors: { ...mergeConfig({}, {}).cors, enabled: false } }));
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    rmSync(server.getConfig().uploadDir!, { recursive: true, force: true });
+  });
+
+  it('requires credentials for the API but not for static files', async () => {
+    expect((await send('/api/files')).status).toBe(401);
+    expect((await send('/api/files', { headers: authorized })).status).toBe(200);
+    expect((await send('/index.html')).status).toBe(200);
+  });
+
+  it('does not let preflight-shaped OPTIONS requests skip authentication', async () => {
+    const res = await send('/api/files', { method: 'OPTIONS', headers: PREFLIGHT });
+    expect(res.status).toBe(401);
+  });
+
+  it('does not let preflight-shaped requests create or delete tus uploads', async () => {
+    const created = await send('/api/tus', {
+      method: 'POST',
+      headers: { ...authorized, 'Tus-Resumable': '1.0.0', 'Upload-Length': 5 }
+    });
+    expect(created.status).toBe(201);
+    const location = new URL(created.headers.location as string, 'http://localhost').pathname;
+
+    const deleteAttempt = await send(location, {
+      method: 'OPTIONS',
+      headers: { ...PREFLIGHT, 'Tus-Resumable': '1.0.0', 'X-HTTP-Method-Override': 'DELETE' }
+    });
+    expect(deleteAttempt.status).toBe(401);
+
+    const createAttempt = await send('/api/tus', {
+      method: 'OPTIONS',
+      headers: { ...PREFLIGHT, 'Tus-Resumable': '1.0.0', 'Upload-Length': 5, 'X-HTTP-Method-Override': 'POST' }
+    });
+    expect(createAttempt.status).toBe(401);
+
+    const head = await send(location, { method: 'HEAD', headers: { ...authorized, 'Tus-Resumable': '1.0.0' } });
+    expect(head.status).toBe(200);
+    expect(head.headers['upload-offset']).toBe('0');
+  });
+
+  it('honours X-HTTP-Method-Override only on authenticated POST requests', async () => {
+    const tus = { ...authorized, 'Tus-Resumable': '1.0.0' };
+    const created = await send('/api/tus', { method: 'POST', headers: { ...tus, 'Upload-Length': 5 } });
+    const location = new URL(created.headers.location as string, 'http://localhost').pathname;
+
+    const viaGet = await send(location, { headers: { ...tus, 'X-HTTP-Method-Override': 'DELETE' } });
+    expect(viaGet.status).toBe(400);
+    const unauthorized = await send(location, {
+      method: 'POST',
+      headers: { 'Tus-Resumable': '1.0.0', 'X-HTTP-Method-Override': 'DELETE' }
+    });
+    expect(unauthorized.status).toBe(401);
+    expect((await send(location, { method: 'HEAD', headers: tus })).status).toBe(200);
+
+    const viaPost = await send(location, { method: 'POST', headers: { ...tus, 'X-HTTP-Method-Override': 'DELETE' } });
+    expect(viaPost.status).toBe(204);
+    expect((await send(location, { method: 'HEAD', headers: tus })).status).toBe(404);
+  });
+});
+
+describe('authentication with CORS enabled', () => {
+  let server: GzipStaticServer;
+  let port: number;
+
+  beforeAll(async () => {
+    const cors = { ...mergeConfig({}, {}).cors, enabled: true, origins: ['http://app.test'] };
+    ({ server, port } = await startServer({ cors }));
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    rmSync(server.getConfig().uploadDir!, { recursive: true, force: true });
+  });
+
+  it('answers real preflights without credentials', async () => {
+    const res = await request(port, '/api/files', {
+      method: 'OPTIONS',
+      headers: { ...PREFLIGHT, Origin: 'http://app.test' }
+    });
+    expect(res.status).toBe(204);
+    expect(res.headers['access-control-allow-origin']).toBe('http://app.test');
+  });
+
+  it('still requires credentials for the actual request', async () => {
+    const res = await request(port, '/api/files', { headers: { Origin: 'http://app.test' } });
+    expect(res.status).toBe(401);
+  });
+});
@@ -1,17 +1,40 @@
-import { createServer, Server, IncomingMessage, ServerResponse } from 'http';
-import { ServerConfig, Logger, ServerStats, RequestHandler } from './types';
+import { createServer, Server, IncomingMessage, ServerResponse, RequestListener } from 'http';
+import https from 'https';
+import { Duplex } from 'stream';
+import http2, { Http2SecureServer } from 'http2';
+import { ServerConfig, Logger, ServerStats, RequestHandler, CompressionEncoding } from './types';
 import { StaticFileHandler } from './handlers/static';
 import { UploadHandler } from './handlers/upload';
+import { TusHandler } from './handlers/tus';
+import { ArchiveHandler } from './handlers/archive';
+import { UploadProgressTracker } from './handlers/upload-progress';
+import { UploadFeed } from './handlers/upload-feed';
+import { isEncodingSupported } from './handlers/gzip';
+import { LIVE_RELOAD_PATH, LiveReloadServer } from './handlers/livereload';
+import { CLIENT_CONFIG_PATH, sendClientConfig } from './handlers/client-config';
+import { ProxyHandler } from './handlers/proxy';
+import { AuthHandler } from './handlers/auth';
 import { FileWatcher } from './utils/watcher';
 import { createLogger } from './utils/logger';
+import { applyHeaders, resolveHeaders } from './utils/headers';
+import { handleCors } from './utils/cors';
+import { loadCredentials } from './utils/certificate';
+import { sendJsonError } from './utils/json';
 
 export class GzipStaticServer {
-  private server: Server | null = null;
+  private server: Server | https.Server | Http2SecureServer | null = null;
   private config: ServerConfig;
   private logger: Logger;
   private fileHandler: StaticFileHandler;
   private uploadHandler: UploadHandler;
+  private tusHandler: TusHandler | null = null;
+  private archiveHandler: ArchiveHandler;
+  private uploadProgress: UploadProgressTracker;
+  private uploadFeed: UploadFeed;
   private fileWatcher: FileWatcher | null = null;
+  private liveReload: LiveReloadServer | null = null;
+  private proxyHandler: ProxyHandler;
+  private authHandler: AuthHandler;
   private stats: ServerStats;
   private middleware: RequestHandler[] = [];
 
@@ -21,12 +44,55 @@ export class GzipStaticServer {
     this.fileHandler = new StaticFileHandler(
       config.rootDir,
       100 * 1024 * 1024, // 100MB cache
-      config.indexPath
+      config.indexPath,
+      {
+        gzip: config.gzip,
+        gzipLevel: config.gzipLevel,
+        gzipThreshold: config.gzipThreshold,
+        encodings: config.encodings,
+        brotliQuality: config.brotliQuality,
+        zstdLevel: config.zstdLevel,
+        precompressed: config.precompressed,
+        streamThreshold: config.streamThreshold,
+        directoryListing: config.directoryListing,
+        spaFallback: config.spaFallback,
+        liveReload: config.watch && config.liveReload,
+        etag: config.etag,
+        cacheHeaders: config.cacheHeaders,
+        cacheMaxAge: config.cacheMaxAge,
+        cacheControl: config.cacheControl,
+        rewrites: config.rewrites,
+        trailingSlash: config.trailingSlash,
+        cleanUrls: config.cleanUrls
+      },
+      this.logger
     );
 
     // 创建上传目录和处理器
     const uploadDir = config.uploadDir || './uploads';
-    this.uploadHandler = new UploadHandler(uploadDir, this.logger);
+    this.uploadProgress = new UploadProgressTracker(this.logger);
+    this.uploadHandler = new UploadHandler(
+      uploadDir,
+      config.upload,
+      config.versioning,
+      config.extraction,
+      config.rootDir,
+      this.uploadProgress,
+      this.logger
+    );
+    if (config.tus.enabled) {
+      this.tusHandler = new TusHandler(
+        uploadDir,
+        config.tus,
+        `${config.apiPrefix}/tus`,
+        this.uploadHandler,
+        this.logger
+      );
+    }
+    this.archiveHandler = new ArchiveHandler(config.rootDir, uploadDir, this.logger);
+    this.uploadFeed = new UploadFeed(uploadDir, this.logger);
+    this.proxyHandler = new ProxyHandler(config.proxy, this.logger);
+    this.authHandler = new AuthHandler(config.auth, config.apiPrefix, this.logger);
 
     this.stats = {
       requests: 0,
@@ -38,6 +104,10 @@ export class GzipStaticServer {
     };
 
     if (config.watch) {
+      if (config.liveReload) {
+        this.liveReload = new LiveReloadServer(config.rootDir, this.logger);
+      }
+
       this.fileWatcher = new FileWatcher(this.logger);
       this.setupFileWatcher();
     }
@@ -48,9 +118,31 @@ export class GzipStaticServer {
 
     this.fileWatcher.on('change', (path: string) => {
       this.logger.info(`File changed: ${path}`);
-      // 清除相关缓存
-      this.fileHandler.clearCache();
-      // 可以在这里添加浏览器刷新等逻辑
+      // 只清除变化文件的缓存
+      const encodings = this.fileHandler.invalidate(path);
+      if (encodings) {
+        this.logger.debug(`Cache invalidated: ${path}`);
+        if (this.config.cacheRewarm) {
+          this.rewarmCache(path, encodings);
+        }
+      }
+      // 通知浏览器刷新
+      this.liveReload?.notify(path);
+    });
+
+    this.fileWatcher.on('unlink', (path: string) => {
+      if (this.fileHandler.invalidate(path)) {
+        this.logger.debug(`Cache invalidated: ${path}`);
+      }
+      this.liveReload?.notify(path);
+    });
+
+    this.fileWatcher.on('unlinkDir', (path: string) => {
+      const count = this.fileHandler.invalidateDirectory(path);
+      if (count > 0) {
+        this.logger.debug(`Cache invalidated: ${count} entries under ${path}`);
+      }
+      this.liveReload?.notify(path);
     });
 
     this.fileWatcher.start(this.config.rootDir, {
@@ -60,65 +152,118 @@ export class GzipStaticServer {
     });
   }
 
+  // 在后台重新读取并压缩变化的文件，下次请求可直接命中缓存
+  private rewarmCache(path: string, encodings: CompressionEncoding[]): void {
+    this.fileHandler.warmCache(path, encodings)
+      .then((warmed) => {
+        if (warmed) {
+          this.logger.debug(`Cache re-warmed: ${path}`);
+        }
+      })
+      .catch((error) => {
+        this.logger.warn(`Failed to re-warm cache for ${path}:`, error);
+      });
+  }
+
   private addMiddleware(handler: RequestHandler): void {
     this.middleware.push(handler);
   }
 
+  // 解码 API 路径中的文件名；编码无效时返回 400 和 null
+  private decodeRouteName(res: ServerResponse, encoded: string): string | null {
+    try {
+      return decodeURIComponent(encoded);
+    } catch {
+      sendJsonError(res, 400, 'invalid_name', 'File name is not valid percent-encoding');
+      return null;
+    }
+  }
+
   private async handleApiRequest(req: IncomingMessage, res: ServerResponse, pathname: string): Promise<void> {
     try {
-      // 设置CORS头部
-      res.setHeader('Access-Control-Allow-Origin', '*');
-      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-      res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+      const route = pathname.slice(this.config.apiPrefix.length);
+
+      // tus 断点续传端点：<apiPrefix>/tus 和 <apiPrefix>/tus/<id>
+      if (this.tusHandler && (route === '/tus' || route.startsWith('/tus/'))) {
+        await this.tusHandler.handleRequest(req, res, route.slice('/tus'.length));
+        return;
+      }
+
+      // 单个上传文件：<apiPrefix>/files/<name>，name 可以包含子目录
+      if (route.startsWith('/files/')) {
+        const name = this.decodeRouteName(res, route.slice('/files/'.length));
+        if (name !== null) {
+          await this.uploadHandler.handleFileRequest(req, res, name);
+        }
+        return;
+      }
 
+      // 历史版本：<apiPrefix>/versions 和 <apiPrefix>/versions/<name>
+      if (route === '/versions' || route.startsWith('/versions/')) {
+        const name = this.decodeRouteName(res, route.slice('/versions/'.length));
+        if (name !== null) {
+          await this.uploadHandler.handleVersionRequest(req, res, name);
+        }
+        return;
+      }
+
+      // 上传进度：<apiPrefix>/progress/<uploadId>，uploadId 为上传时传入的同名查询参数
+      if (route.startsWith('/progress/')) {
+        if (req.method === 'GET') {
+          this.uploadProgress.handleRequest(req, res, route.slice('/progress/'.length));
+        } else {
+          sendJsonError(res, 405, 'method_not_allowed', `Method ${req.method} is not allowed`, { 'Allow': 'GET, OPTIONS' });
+        }
+        return;
+      }
+
+      // CORS 预检已在 handleRequest 中处理，这里只响应普通的 OPTIONS 请求
       if (req.method === 'OPTIONS') {
-        res.writeHead(200);
+        res.writeHead(204, { 'Allow': 'GET, POST, OPTIONS' });
         res.end();
         return;
       }
 
-      switch (pathname) {
-        case '/api/upload':
+      switch (route) {
+        case '/upload':
           if (req.method === 'POST') {
             await this.uploadHandler.handleUpload(req, res);
           } else {
-            res.writeHead(405, { 'Allow': 'POST, OPTIONS' });
-            res.end('Method Not Allowed');
+            sendJsonError(res, 405, 'method_not_allowed', `Method ${req.method} is not allowed`, { 'Allow': 'POST, OPTIONS' });
           }
           break;
 
-        case '/api/files':
+        case '/files':
           if (req.method === 'GET') {
             await this.uploadHandler.handleFileList(req, res);
           } else {
-            res.writeHead(405, { 'Allow': 'GET, OPTIONS' });
-            res.end('Method Not Allowed');
+            sendJsonError(res, 405, 'method_not_allowed', `Method ${req.method} is not allowed`, { 'Allow': 'GET, OPTIONS' });
+          }
+          break;
+
+        case '/archive':
+          if (req.method === 'GET' || req.method === 'HEAD') {
+            await this.archiveHandler.handleRequest(req, res);
+          } else {
+            sendJsonError(res, 405, 'method_not_allowed', `Method ${req.method} is not allowed`, { 'Allow': 'GET, HEAD, OPTIONS' });
+          }
+          break;
+
+        case '/feed':
+          if (req.method === 'GET') {
+            this.uploadFeed.handleRequest(req, res);
+          } else {
+            sendJsonError(res, 405, 'method_not_allowed', `Method ${req.method} is not allowed`, { 'Allow': 'GET, OPTIONS' });
           }
           break;
 
         default:
-          res.writeHead(404, { 'Content-Type': 'application/json' });
-          res.end(JSON.stringify({ error: 'API endpoint not found' }));
+          sendJsonError(res, 404, 'not_found', 'API endpoint not found');
           break;
       }
     } catch (error) {
       this.logger.error('API request error:', error as Error);
-      res.writeHead(500, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ error: 'Internal server error' }));
-    }
-  }
-
-  private setupCors(req: IncomingMessage, res: ServerResponse): void {
-    if (!this.config.cors) return;
-
-    res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Methods', 'GET, HEAD, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Range, Accept-Encoding, If-None-Match, If-Modified-Since');
-
-    if (req.method === 'OPTIONS') {
-      res.writeHead(200);
-      res.end();
-      return;
+      sendJsonError(res, 500, 'internal_error', 'Internal server error');
     }
   }
 
@@ -127,28 +272,61 @@ export class GzipStaticServer {
     this.stats.requests++;
 
     try {
-      // 设置 CORS 头部
-      this.setupCors(req, res);
-
-      // 安全头部
-      res.setHeader('X-Content-Type-Options', 'nosniff');
-      res.setHeader('X-Frame-Options', 'DENY');
-      res.setHeader('X-XSS-Protection', '1; mode=block');
+      // 解析URL路径
+      const url = new URL(req.url || '/', `${this.getProtocol()}://${req.headers.host || req.headers[':authority']}`);
+      const pathname = url.pathname;
 
       // 服务器信息头部
       res.setHeader('Server', 'Gzip-Static-Server/1.0.0');
 
+      // 安全头部和按路径配置的自定义头部
+      applyHeaders(res, resolveHeaders(pathname, this.config.headers));
+
       // 执行中间件
       for (const middleware of this.middleware) {
         await middleware(req, res);
       }
 
-      // 解析URL路径
-      const url = new URL(req.url || '/', `http://${req.headers.host}`);
-      const pathname = url.pathname;
+      const isLiveReload = this.liveReload !== null && this.liveReload.isLiveReloadRequest(pathname);
+      const proxyRule = this.proxyHandler.match(pathname);
+
+      // tus 的方法改写必须在 CORS 和身份验证之前完成
+      if (!proxyRule && this.tusHandler?.isTusPath(pathname)) {
+        this.tusHandler.applyMethodOverride(req);
+      }
+
+      // 静态文件和内置 API 共用同一套 CORS 规则，预检请求在此结束；代理路由由上游处理 CORS
+      const isApiRequest = pathname.startsWith(this.config.apiPrefix + '/');
+      if (!isLiveReload && !proxyRule && handleCors(req, res, this.config.cors, isApiRequest)) {
+        return;
+      }
+
+      // 身份验证：只有上面已经由 CORS 应答的预检请求不做校验（预检不携带凭据）；
+      // 未被应答的 OPTIONS 请求（例如关闭 CORS 时）会继续交给后面的处理器，因此同样需要校验
+      if (!(await this.authHandler.handleRequest(req, res, pathname))) {
+        return;
+      }
+
+      // 实时刷新通道
+      if (this.liveReload && isLiveReload) {
+        this.liveReload.handleRequest(req, res, pathname);
+        return;
+      }
+
+      // 内置页面使用的配置脚本（如 apiPrefix），优先于代理规则
+      if (pathname === CLIENT_CONFIG_PATH && (req.method === 'GET' || req.method === 'HEAD')) {
+        sendClientConfig(req, res, { apiPrefix: this.config.apiPrefix });
+        return;
+      }
+
+      // 反向代理优先于内置 API 和静态文件
+      if (proxyRule) {
+        await this.proxyHandler.handleRequest(req, res, proxyRule);
+        return;
+      }
 
       // 处理API路由
-      if (pathname.startsWith('/api/')) {
+      if (isApiRequest) {
         await this.handleApiRequest(req, res, pathname);
         return;
       }
@@ -156,6 +334,9 @@ export class GzipStaticServer {
       // 处理静态文件
       if (req.method === 'GET' || req.method === 'HEAD') {
         await this.fileHandler.handleRequest(req, res);
+      } else if (req.method === 'OPTIONS') {
+        res.writeHead(204, { 'Allow': 'GET, HEAD, OPTIONS' });
+        res.end();
       } else {
         res.writeHead(405, { 'Allow': 'GET, HEAD, OPTIONS' });
         res.end('Method Not Allowed');
@@ -174,9 +355,31 @@ export class GzipStaticServer {
     }
   }
 
+  public getProtocol(): 'http' | 'https' {
+    return this.config.https.enabled || this.config.http2 ? 'https' : 'http';
+  }
+
+  private createServer(listener: RequestListener): Server | https.Server | Http2SecureServer {
+    if (this.getProtocol() === 'http') {
+      return createServer(listener);
+    }
+
+    const credentials = loadCredentials(this.config.https, this.logger);
+
+    if (this.config.http2) {
+      // HTTP/2 兼容 API 的请求/响应与 http 模块接口一致；不支持 HTTP/2 的客户端通过 ALPN 回退到 HTTP/1.1
+      return http2.createSecureServer(
+        { ...credentials, allowHTTP1: true },
+        listener as unknown as (req: http2.Http2ServerRequest, res: http2.Http2ServerResponse) => void
+      );
+    }
+
+    return https.createServer(credentials, listener);
+  }
+
   public async start(): Promise<void> {
     return new Promise((resolve, reject) => {
-      this.server = createServer((req, res) => {
+      this.server = this.createServer((req, res) => {
         this.handleRequest(req, res).catch(error => {
           this.logger.error('Unhandled request error:', error);
           if (!res.headersSent) {
@@ -186,6 +389,21 @@ export class GzipStaticServer {
         });
       });
 
+      // WebSocket 升级请求只转发给开启了 ws 的代理规则
+      this.server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+        const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+        this.authHandler.handleUpgrade(req, socket, pathname)
+          .then((authorized) => {
+            if (authorized && !this.proxyHandler.handleUpgrade(req, socket, head)) {
+              socket.destroy();
+            }
+          })
+          .catch((error) => {
+            this.logger.error('Upgrade handling error:', error);
+            socket.destroy();
+          });
+      });
+
       this.server.on('error', (error) => {
         this.logger.error('Server error:', error);
         reject(error);
@@ -194,11 +412,27 @@ export class GzipStaticServer {
       this.server.listen(this.config.port, this.config.host, () => {
         const address = this.server!.address();
         const host = typeof address === 'string' ? address : `${address?.address}:${address?.port}`;
-        this.logger.info(`🚀 Gzip Static Server running at http://${host}`);
+        this.logger.info(`🚀 Gzip Static Server running at ${this.getProtocol()}://${host}`);
+        if (this.config.http2) {
+          this.logger.info('⚡ HTTP/2: enabled (HTTP/1.1 fallback via ALPN)');
+        }
         this.logger.info(`📁 Serving files from: ${this.config.rootDir}`);
         this.logger.info(`🗜️  Gzip compression: ${this.config.gzip ? 'enabled' : 'disabled'}`);
+        if (this.config.gzip) {
+          this.logger.info(`🔤 Encodings: ${this.config.encodings.filter(isEncodingSupported).join(', ')}`);
+        }
+        this.logger.info(`📦 Precompressed files: ${this.config.precompressed ? 'enabled' : 'disabled'}`);
         this.logger.info(`💾 Caching: ${this.config.cache ? 'enabled' : 'disabled'}`);
         this.logger.info(`👀 File watching: ${this.config.watch ? 'enabled' : 'disabled'}`);
+        for (const rule of this.config.proxy) {
+          this.logger.info(`🔀 Proxy: ${rule.context} -> ${rule.target}${rule.ws ? ' (ws)' : ''}`);
+        }
+        if (this.authHandler.isEnabled()) {
+          this.logger.info(`🔒 Authentication: ${this.config.auth.protect === 'all' ? 'all requests' : `API (${this.config.apiPrefix})`}`);
+        }
+        if (this.liveReload) {
+          this.logger.info(`🔄 Live reload: enabled (${LIVE_RELOAD_PATH})`);
+        }
 
         resolve();
       });
@@ -211,6 +445,17 @@ export class GzipStaticServer {
         this.fileWatcher.stop();
       }
 
+      // 关闭 SSE 长连接，否则 server.close 会一直等待
+      if (this.liveReload) {
+        this.liveReload.close();
+      }
+      this.uploadProgress.close();
+      this.uploadFeed.close();
+
+      if (this.tusHandler) {
+        this.tusHandler.close();
+      }
+
       if (this.server) {
         this.server.close(() => {
           this.logger.info('Server stopped');
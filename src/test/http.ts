@@ -0,0 +1,40 @@
+import http, { IncomingHttpHeaders } from 'http';
+import net, { AddressInfo } from 'net';
+
+// 测试用的 HTTP 客户端和端口工具，不参与构建（见 tsconfig.json 的 exclude）
+
+export interface TestResponse {
+  status: number;
+  headers: IncomingHttpHeaders;
+  body: Buffer;
+}
+
+export interface TestRequest {
+  method?: string;
+  headers?: Record<string, string | number>;
+  body?: Buffer | string;
+}
+
+export function request(port: number, path: string, options: TestRequest = {}): Promise<TestResponse> {
+  return new Promise((resolve, reject) => {
+    const req = http.request({ port, path, method: options.method || 'GET', headers: options.headers }, (res) => {
+      const chunks: Buffer[] = [];
+      res.on('data', (chunk: Buffer) => chunks.push(chunk));
+      res.on('end', () => resolve({ status: res.statusCode || 0, headers: res.headers, body: Buffer.concat(chunks) }));
+    });
+    req.on('error', reject);
+    req.end(options.body);
+  });
+}
+
+// 获取一个当前空闲的端口，用于需要在配置中指定端口的服务器
+export function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.on('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
@@ -10,18 +10,242 @@ export interface ServerConfig {
   gzipThreshold: number;
   cache: boolean;
   cacheMaxAge: number;
+  cacheRewarm: boolean;
+  cacheHeaders: boolean;
+  cacheControl: CacheControlRule[];
   watch: boolean;
   open: boolean;
   logLevel: 'debug' | 'info' | 'warn' | 'error';
-  cors: boolean;
+  cors: CorsConfig;
   indexPath: string;
+  encodings: CompressionEncoding[];
+  brotliQuality: number;
+  zstdLevel: number;
+  precompressed: boolean;
+  streamThreshold: number;
+  directoryListing: boolean;
+  spaFallback: SpaFallbackConfig;
+  liveReload: boolean;
+  etag: ETagStrategy;
+  apiPrefix: string;
+  proxy: ProxyRule[];
+  rewrites: RewriteRule[];
+  trailingSlash: TrailingSlashMode;
+  cleanUrls: boolean;
+  headers: HeadersConfig;
+  https: HttpsConfig;
+  // HTTP/2（基于 TLS，通过 ALPN 回退到 HTTP/1.1），开启时隐含 https
+  http2: boolean;
+  auth: AuthConfig;
+  tus: TusConfig;
+  upload: UploadPolicyConfig;
+  versioning: VersioningConfig;
+  extraction: ExtractionConfig;
+}
+
+// 上传时解压 .zip / .tar / .tar.gz 压缩包
+export interface ExtractionConfig {
+  enabled: boolean;
+  // 允许解压到 rootDir（同名文件会被覆盖）
+  allowRootDir: boolean;
+  // 单个压缩包中的最大条目数
+  maxEntries: number;
+  // 单个压缩包解压后的最大字节数
+  maxTotalSize: number;
+  // 解压后大小与压缩包大小的最大比例
+  maxRatio: number;
+}
+
+// 重新上传同名文件时保留旧版本，而不是生成 name_1.ext
+export interface VersioningConfig {
+  enabled: boolean;
+  // 每个文件最多保留的历史版本数，null 表示不限制
+  maxVersions: number | null;
+  // 历史版本的最长保留毫秒数，null 表示不限制
+  maxAge: number | null;
+}
+
+// 上传策略，同时作用于 multipart 上传和 tus 上传
+export interface UploadPolicyConfig {
+  // 单个文件的最大字节数
+  maxFileSize: number;
+  // 单个 multipart 请求中所有文件的最大字节数
+  maxRequestSize: number;
+  // 单个 multipart 请求中的最大文件数
+  maxFiles: number;
+  // 扩展名白名单/黑名单（如 ".png"、".tar.gz"），白名单为空表示不限制
+  allowedExtensions: string[];
+  deniedExtensions: string[];
+  // 按文件头识别出的 MIME 类型白名单/黑名单，支持 "image/*"
+  allowedMimeTypes: string[];
+  deniedMimeTypes: string[];
+  // uploadDir 的总容量上限（字节），null 表示不限制
+  quota: number | null;
+  // 内容（SHA-256）与已有文件相同时不再保存新副本
+  deduplicate: boolean;
+}
+
+export type UploadErrorCode =
+  | 'file_too_large'
+  | 'request_too_large'
+  | 'too_many_files'
+  | 'extension_not_allowed'
+  | 'mime_type_not_allowed'
+  | 'quota_exceeded'
+  | 'invalid_path'
+  | 'invalid_archive'
+  | 'archive_too_large'
+  | 'unsupported_entry'
+  | 'extraction_not_allowed'
+  | 'upload_failed';
+
+// tus 1.0 断点续传（core + creation、termination、expiration 扩展）
+export interface TusConfig {
+  enabled: boolean;
+  // 单个上传的最大字节数（Tus-Max-Size）
+  maxSize: number;
+  // 未完成的上传在最后一次写入后保留的毫秒数
+  expiration: number;
+}
+
+// none：不启用；api：只保护内置 API；all：保护所有请求（包括代理和实时刷新）
+export type AuthScope = 'none' | 'api' | 'all';
+
+export interface AuthUser {
+  username: string;
+  // bcrypt（$2b$...）或 scrypt（$scrypt$...）哈希，可用 gzip-server hash-password 生成
+  password: string;
+}
+
+export interface AuthConfig {
+  protect: AuthScope;
+  realm: string;
+  // HTTP Basic 用户
+  users: AuthUser[];
+  // 静态 Bearer 令牌
+  tokens: string[];
+}
+
+export interface HttpsConfig {
+  enabled: boolean;
+  // PEM 证书和私钥路径，未配置时使用自动生成的自签名证书
+  cert?: string;
+  key?: string;
+  // 自动生成的证书保存目录
+  certDir: string;
+}
+
+export interface CorsConfig {
+  // 'api' 只对内置 API 应用 CORS 规则（未配置时的默认值），true 同时应用于静态文件
+  enabled: boolean | 'api';
+  // 允许的源：'*'、完整的源（如 http://localhost:5173）或 /regex/flags 形式的正则
+  origins: string[];
+  credentials: boolean;
+  methods: string[];
+  // 为空时回显预检请求中的 Access-Control-Request-Headers
+  allowedHeaders: string[];
+  exposedHeaders: string[];
+  // 预检结果缓存秒数，null 时不发送 Access-Control-Max-Age
+  maxAge: number | null;
+}
+
+// 自定义响应头部：值为 null 时删除该头部（包括默认安全头部）
+export type HeaderValues = Record<string, string | null>;
+
+export type HeaderPreset = 'cross-origin-isolation';
+
+export interface HeadersConfig {
+  // 在默认安全头部之后依次应用：presets -> global -> 所有命中的 rules
+  presets: HeaderPreset[];
+  global: HeaderValues;
+  rules: HeaderRule[];
+}
+
+export interface HeaderRule extends PathPattern {
+  headers: HeaderValues;
+}
+
+export type RedirectStatus = 301 | 302 | 307 | 308;
+
+// 重写/重定向规则：source 为正则，destination 可用 $1、$<name> 引用捕获组
+export interface RewriteRule {
+  source: string;
+  destination: string;
+  // 省略时为内部重写，否则按该状态码重定向
+  status?: RedirectStatus;
+}
+
+// always：补全尾部斜杠；never：去掉尾部斜杠；ignore：不处理
+export type TrailingSlashMode = 'always' | 'never' | 'ignore';
+
+// 反向代理规则：context 为路径前缀或 glob，第一条命中的规则生效
+export interface ProxyRule {
+  context: string;
+  target: string;
+  // 正则 -> 替换字符串，按顺序应用第一条命中的规则
+  pathRewrite?: Record<string, string>;
+  // 请求/响应头部改写，值为 null 时删除该头部
+  headers?: Record<string, string | null>;
+  responseHeaders?: Record<string, string | null>;
+  changeOrigin?: boolean;
+  timeout?: number;
+  ws?: boolean;
+}
+
+// 按路径匹配的模式，glob 与 regex 二选一
+export interface PathPattern {
+  glob?: string;
+  regex?: string;
+}
+
+export interface CacheControlRule extends PathPattern {
+  value: string;
+}
+
+// mtime：基于文件大小和修改时间；content：基于文件内容哈希
+export type ETagStrategy = 'mtime' | 'content';
+
+export interface SpaFallbackConfig {
+  enabled: boolean;
+  // 回退时返回的文档，默认使用 indexPath
+  index?: string;
+  // 即使带扩展名也回退的路径模式
+  globs: string[];
+}
+
+export type CompressionEncoding = 'br' | 'zstd' | 'gzip';
+
+export type ContentEncoding = CompressionEncoding | 'identity';
+
+export interface CompressionOptions {
+  gzipLevel: number;
+  brotliQuality: number;
+  zstdLevel: number;
+}
+
+export interface StaticFileOptions extends CompressionOptions {
+  gzip: boolean;
+  gzipThreshold: number;
+  encodings: CompressionEncoding[];
+  precompressed: boolean;
+  streamThreshold: number;
+  directoryListing: boolean;
+  spaFallback: SpaFallbackConfig;
+  liveReload: boolean;
+  etag: ETagStrategy;
+  cacheHeaders: boolean;
+  cacheMaxAge: number;
+  cacheControl: CacheControlRule[];
+  rewrites: RewriteRule[];
+  trailingSlash: TrailingSlashMode;
+  cleanUrls: boolean;
 }
 
 export interface CompressionResult {
   content: Buffer;
   originalSize: number;
   compressedSize: number;
-  encoding: string;
+  encoding: CompressionEncoding;
 }
 
 export interface FileInfo {
@@ -31,6 +255,21 @@ export interface FileInfo {
   etag: string;
   mimeType: string;
   shouldCompress: boolean;
+  cacheControl: string;
+}
+
+export interface DirectoryEntry {
+  name: string;
+  type: 'file' | 'directory';
+  mimeType: string | null;
+  size: number;
+  gzipSize: number | null;
+  mtime: string;
+}
+
+export interface DirectoryListing {
+  path: string;
+  entries: DirectoryEntry[];
 }
 
 export interface RequestHandler {
@@ -39,7 +278,7 @@ export interface RequestHandler {
 
 export interface CacheEntry {
   content: Buffer;
-  compressed?: Buffer;
+  variants: Partial<Record<CompressionEncoding, Buffer>>;
   etag: string;
   lastModified: string;
   mimeType: string;
@@ -0,0 +1,171 @@
+import zlib from 'zlib';
+import { createWriteStream, mkdirSync, mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Writable } from 'stream';
+import { finished, pipeline } from 'stream/promises';
+import { ArchiveItem, ArchiveWriter, tableCrc32, TarWriter, ZipWriter } from './archive-writer';
+import { ArchiveFormat, extractArchive } from './archive';
+
+let baseDir: string;
+let sourceDir: string;
+
+beforeEach(() => {
+  baseDir = mkdtempSync(join(tmpdir(), 'archive-writer-test-'));
+  sourceDir = join(baseDir, 'source');
+  mkdirSync(sourceDir);
+});
+
+afterEach(() => {
+  rmSync(baseDir, { recursive: true, force: true });
+});
+
+function file(name: string, content: string | Buffer, compress = true): ArchiveItem {
+  const path = join(sourceDir, ...name.split('/'));
+  mkdirSync(join(path, '..'), { recursive: true });
+  writeFileSync(path, content);
+  const stats = statSync(path);
+  return { name, path, directory: false, size: stats.size, mtime: stats.mtime, mode: 0o644, compress };
+}
+
+function directory(name: string): ArchiveItem {
+  return { name, path: sourceDir, directory: true, size: 0, mtime: new Date(), mode: 0o755, compress: false };
+}
+
+// 写出压缩包，返回压缩包路径和 onData 报告的字节数
+async function write(format: ArchiveFormat, items: ArchiveItem[]): Promise<{ archivePath: string; reported: number }> {
+  const archivePath = join(baseDir, `out.${format}`);
+  const output = createWriteStream(archivePath);
+  const gzip = format === 'tar.gz' ? zlib.createGzip() : null;
+  const done = gzip ? pipeline(gzip, output) : finished(output);
+  const out: Writable = gzip || output;
+
+  const writer: ArchiveWriter = format === 'zip' ? new ZipWriter(out) : new TarWriter(out);
+  let reported = 0;
+  for (const item of items) {
+    await writer.add(item, length => { reported += length; });
+  }
+  await writer.finish();
+  await done;
+  return { archivePath, reported };
+}
+
+async function roundTrip(format: ArchiveFormat, items: ArchiveItem[]): Promise<Map<string, Buffer>> {
+  const { archivePath } = await write(format, items);
+  const stagingDir = join(baseDir, 'staging');
+  rmSync(stagingDir, { recursive: true, force: true });
+
+  const result = await extractArchive(archivePath, format, stagingDir, {
+    maxEntries: 100,
+    maxEntrySize: 10 * 1024 * 1024,
+    maxTotalSize: 10 * 1024 * 1024,
+    maxRatio: 1000
+  });
+  if (!result.ok) {
+    throw new Error(result.rejection.message);
+  }
+
+  const contents = new Map<string, Buffer>();
+  for (const entry of result.entries) {
+    expect(entry).toMatchObject({ success: true });
+    contents.set(entry.path, readFileSync(join(stagingDir, ...entry.path.split('/'))));
+  }
+  return contents;
+}
+
+// 读取中央目录中每个条目的 CRC 和大小
+function centralDirectory(archive: Buffer): { name: string; crc: number; size: number }[] {
+  const end = archive.length - 22;
+  expect(archive.readUInt32LE(end)).toBe(0x06054b50);
+  const records = [];
+  let position = archive.readUInt32LE(end + 16);
+  for (let i = 0; i < archive.readUInt16LE(end + 10); i++) {
+    const nameLength = archive.readUInt16LE(position + 28);
+    records.push({
+      name: archive.toString('utf8', position + 46, position + 46 + nameLength),
+      crc: archive.readUInt32LE(position + 16),
+      size: archive.readUInt32LE(position + 24)
+    });
+    position += 46 + nameLength + archive.readUInt16LE(position + 30) + archive.readUInt16LE(position + 32);
+  }
+  return records;
+}
+
+describe('tableCrc32', () => {
+  it('matches the standard CRC-32 check values', () => {
+    expect(tableCrc32(Buffer.alloc(0))).toBe(0);
+    expect(tableCrc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+    expect(tableCrc32(Buffer.from('The quick brown fox jumps over the lazy dog'))).toBe(0x414fa339);
+  });
+
+  it('can be computed in chunks and agrees with zlib.crc32 when available', () => {
+    const data = Buffer.from(Array.from({ length: 5000 }, (_, i) => (i * 31 + 7) & 0xff));
+    const whole = tableCrc32(data);
+    expect(tableCrc32(data.subarray(1234), tableCrc32(data.subarray(0, 1234)))).toBe(whole);
+    if (typeof zlib.crc32 === 'function') {
+      expect(zlib.crc32(data)).toBe(whole);
+    }
+  });
+});
+
+describe('ZipWriter', () => {
+  it('round-trips deflated, stored, empty and nested files', async () => {
+    const text = 'hello zip\n'.repeat(1000);
+    const binary = Buffer.from(Array.from({ length: 3000 }, (_, i) => (i * 131) & 0xff));
+    const items = [
+      directory('assets'),
+      file('index.html', text),
+      file('assets/image.bin', binary, false),
+      file('assets/empty.txt', ''),
+      file('名前/ユニコード.txt', 'utf-8 names')
+    ];
+
+    const contents = await roundTrip('zip', items);
+    expect([...contents.keys()]).toEqual(['index.html', 'assets/image.bin', 'assets/empty.txt', '名前/ユニコード.txt']);
+    expect(contents.get('index.html')!.toString()).toBe(text);
+    expect(contents.get('assets/image.bin')!.equals(binary)).toBe(true);
+    expect(contents.get('assets/empty.txt')!.length).toBe(0);
+    expect(contents.get('名前/ユニコード.txt')!.toString()).toBe('utf-8 names');
+  });
+
+  it('records the CRC-32 and size of each entry in the central directory', async () => {
+    const items = [file('a.txt', 'first file'), file('b.bin', Buffer.alloc(70000, 1)), directory('dir')];
+    const { archivePath, reported } = await write('zip', items);
+    expect(reported).toBe(10 + 70000);
+
+    expect(centralDirectory(readFileSync(archivePath))).toEqual([
+      { name: 'a.txt', crc: tableCrc32(Buffer.from('first file')), size: 10 },
+      { name: 'b.bin', crc: tableCrc32(Buffer.alloc(70000, 1)), size: 70000 },
+      { name: 'dir/', crc: 0, size: 0 }
+    ]);
+  });
+});
+
+describe('TarWriter', () => {
+  it('round-trips tar and tar.gz, using pax for long paths', async () => {
+    const longName = `${'nested-directory/'.repeat(10)}${'f'.repeat(120)}.txt`;
+    for (const format of ['tar', 'tar.gz'] as const) {
+      const items = [
+        directory('docs'),
+        file('docs/readme.md', '# readme\n'),
+        file('block.bin', Buffer.alloc(1024, 7)),
+        file(longName, 'deep')
+      ];
+
+      const contents = await roundTrip(format, items);
+      expect([...contents.keys()]).toEqual(['docs/readme.md', 'block.bin', longName]);
+      expect(contents.get('docs/readme.md')!.toString()).toBe('# readme\n');
+      expect(contents.get('block.bin')!.equals(Buffer.alloc(1024, 7))).toBe(true);
+      expect(contents.get(longName)!.toString()).toBe('deep');
+    }
+  });
+
+  it('keeps the size from the header when a file changes while it is being written', async () => {
+    const grown = { ...file('grown.txt', 'abc'), size: 2 };
+    const shrunk = { ...file('shrunk.txt', 'ab'), size: 4 };
+
+    const contents = await roundTrip('tar', [grown, shrunk]);
+    expect(contents.get('grown.txt')!.toString()).toBe('ab');
+    expect(contents.get('shrunk.txt')!.equals(Buffer.from('ab\0\0'))).toBe(true);
+  });
+});
@@ -0,0 +1,393 @@
+import zlib from 'zlib';
+import { createReadStream } from 'fs';
+import { pipeline, Readable, Transform, Writable } from 'stream';
+
+// 写入压缩包的文件或目录
+export interface ArchiveItem {
+  // 压缩包内的路径，使用 / 分隔，目录不带结尾的 /
+  name: string;
+  // 磁盘上的路径
+  path: string;
+  directory: boolean;
+  size: number;
+  mtime: Date;
+  mode: number;
+  // zip 中是否使用 deflate，已压缩的格式直接存储
+  compress: boolean;
+}
+
+export interface ArchiveWriter {
+  // onData 在读取文件内容时报告字节数，用于记录进度
+  add(item: ArchiveItem, onData: (length: number) => void): Promise<void>;
+  finish(): Promise<void>;
+}
+
+// 写入输出流，缓冲区满时等待 drain；输出流已关闭（例如客户端断开）时抛出错误
+async function writeChunk(out: Writable, chunk: Buffer): Promise<void> {
+  if (out.destroyed) {
+    throw new Error('Output stream closed');
+  }
+  if (out.write(chunk)) {
+    return;
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      out.off('drain', onDrain);
+      out.off('close', onClose);
+    };
+    const onDrain = () => {
+      cleanup();
+      resolve();
+    };
+    const onClose = () => {
+      cleanup();
+      reject(new Error('Output stream closed'));
+    };
+    out.on('drain', onDrain);
+    out.on('close', onClose);
+  });
+}
+
+// 读取文件内容，按需经过 transforms 处理后逐块返回
+function readItem(item: ArchiveItem, onData: (chunk: Buffer) => void, transforms: Transform[] = []): Readable {
+  const counter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      onData(chunk);
+      callback(null, chunk);
+    }
+  });
+  return pipeline([createReadStream(item.path), counter, ...transforms], () => {}) as unknown as Readable;
+}
+
+// zlib.crc32 仅在较新的 Node.js 版本中可用（>= 20.15），@types/node 中总是声明，
+// 而 package.json 支持 Node.js 16，因此运行时检测，不存在时使用下面的查表实现
+const nativeCrc32: typeof zlib.crc32 | undefined = typeof zlib.crc32 === 'function' ? zlib.crc32 : undefined;
+
+let crcTable: Uint32Array | null = null;
+
+// 查表计算 CRC-32，value 为之前各块的结果，用于分块计算
+export function tableCrc32(data: Buffer, value = 0): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = ~value >>> 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return ~crc >>> 0;
+}
+
+function crc32(data: Buffer, value = 0): number {
+  return nativeCrc32 ? nativeCrc32(data, value) : tableCrc32(data, value);
+}
+
+// MS-DOS 格式的日期和时间（精度为 2 秒，最早 1980 年）
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+const ZIP32_LIMIT = 0xffffffff;
+// 通用标志：bit 3 表示大小和 CRC 写在数据之后的数据描述符中，bit 11 表示文件名为 UTF-8
+const ZIP_FLAGS = 0x0808;
+// 创建者版本：高字节 3 表示 Unix（外部属性中包含文件权限），低字节 45 表示 ZIP 4.5（ZIP64）
+const ZIP_VERSION_MADE_BY = (3 << 8) | 45;
+
+interface ZipCentralRecord {
+  name: Buffer;
+  method: number;
+  time: number;
+  date: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+  externalAttributes: number;
+  zip64: boolean;
+}
+
+// 流式写入 zip：内容写完后才知道 CRC 和压缩后的大小，因此使用数据描述符；
+// 超过 4 GB 的文件、偏移量或 65535 个条目时使用 ZIP64 结构
+export class ZipWriter implements ArchiveWriter {
+  private out: Writable;
+  private offset = 0;
+  private records: ZipCentralRecord[] = [];
+
+  constructor(out: Writable) {
+    this.out = out;
+  }
+
+  private async write(chunk: Buffer): Promise<void> {
+    this.offset += chunk.length;
+    await writeChunk(this.out, chunk);
+  }
+
+  public async add(item: ArchiveItem, onData: (length: number) => void): Promise<void> {
+    const name = Buffer.from(item.directory ? `${item.name}/` : item.name, 'utf8');
+    const method = item.directory || !item.compress ? 0 : 8;
+    // 文件大小在开始写入前按 stat 结果判断，本地头部中的 ZIP64 扩展字段先写 0
+    const zip64 = item.size >= ZIP32_LIMIT;
+    const { time, date } = dosDateTime(item.mtime);
+    const offset = this.offset;
+
+    const extra = zip64 ? Buffer.alloc(20) : Buffer.alloc(0);
+    if (zip64) {
+      extra.writeUInt16LE(0x0001, 0);
+      extra.writeUInt16LE(16, 2);
+    }
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(zip64 ? 45 : 20, 4);
+    header.writeUInt16LE(ZIP_FLAGS, 6);
+    header.writeUInt16LE(method, 8);
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    header.writeUInt32LE(0, 14);
+    header.writeUInt32LE(zip64 ? ZIP32_LIMIT : 0, 18);
+    header.writeUInt32LE(zip64 ? ZIP32_LIMIT : 0, 22);
+    header.writeUInt16LE(name.length, 26);
+    header.writeUInt16LE(extra.length, 28);
+    await this.write(Buffer.concat([header, name, extra]));
+
+    let crc = 0;
+    let size = 0;
+    let compressedSize = 0;
+
+    if (!item.directory) {
+      const body = readItem(item, (chunk) => {
+        crc = crc32(chunk, crc);
+        size += chunk.length;
+        onData(chunk.length);
+      }, method === 8 ? [zlib.createDeflateRaw()] : []);
+
+      for await (const chunk of body) {
+        compressedSize += chunk.length;
+        await this.write(chunk);
+      }
+    }
+
+    const descriptor = Buffer.alloc(zip64 ? 24 : 16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(crc, 4);
+    if (zip64) {
+      descriptor.writeBigUInt64LE(BigInt(compressedSize), 8);
+      descriptor.writeBigUInt64LE(BigInt(size), 16);
+    } else {
+      descriptor.writeUInt32LE(compressedSize, 8);
+      descriptor.writeUInt32LE(size, 12);
+    }
+    await this.write(descriptor);
+
+    // 目录额外设置 MS-DOS 目录属性
+    const mode = (item.directory ? 0o040000 : 0o100000) | (item.mode & 0o777);
+    this.records.push({
+      name,
+      method,
+      time,
+      date,
+      crc,
+      compressedSize,
+      size,
+      offset,
+      externalAttributes: ((mode << 16) | (item.directory ? 0x10 : 0)) >>> 0,
+      zip64
+    });
+  }
+
+  private centralHeader(record: ZipCentralRecord): Buffer {
+    // ZIP64 扩展字段按顺序只包含超出 32 位的字段
+    const large = [record.size, record.compressedSize, record.offset].map(value => value >= ZIP32_LIMIT);
+    const values = [record.size, record.compressedSize, record.offset].filter((_, index) => large[index]);
+    const extra = Buffer.alloc(values.length > 0 ? 4 + values.length * 8 : 0);
+    if (values.length > 0) {
+      extra.writeUInt16LE(0x0001, 0);
+      extra.writeUInt16LE(values.length * 8, 2);
+      values.forEach((value, index) => extra.writeBigUInt64LE(BigInt(value), 4 + index * 8));
+    }
+
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(ZIP_VERSION_MADE_BY, 4);
+    header.writeUInt16LE(record.zip64 || values.length > 0 ? 45 : 20, 6);
+    header.writeUInt16LE(ZIP_FLAGS, 8);
+    header.writeUInt16LE(record.method, 10);
+    header.writeUInt16LE(record.time, 12);
+    header.writeUInt16LE(record.date, 14);
+    header.writeUInt32LE(record.crc, 16);
+    header.writeUInt32LE(large[1] ? ZIP32_LIMIT : record.compressedSize, 20);
+    header.writeUInt32LE(large[0] ? ZIP32_LIMIT : record.size, 24);
+    header.writeUInt16LE(record.name.length, 28);
+    header.writeUInt16LE(extra.length, 30);
+    header.writeUInt16LE(0, 32);
+    header.writeUInt16LE(0, 34);
+    header.writeUInt16LE(0, 36);
+    header.writeUInt32LE(record.externalAttributes, 38);
+    header.writeUInt32LE(large[2] ? ZIP32_LIMIT : record.offset, 42);
+    return Buffer.concat([header, record.name, extra]);
+  }
+
+  public async finish(): Promise<void> {
+    const directoryOffset = this.offset;
+    for (const record of this.records) {
+      await this.write(this.centralHeader(record));
+    }
+    const directorySize = this.offset - directoryOffset;
+    const count = this.records.length;
+    const zip64 = count >= 0xffff || directoryOffset >= ZIP32_LIMIT || directorySize >= ZIP32_LIMIT;
+
+    if (zip64) {
+      const zip64End = Buffer.alloc(56);
+      zip64End.writeUInt32LE(0x06064b50, 0);
+      zip64End.writeBigUInt64LE(44n, 4);
+      zip64End.writeUInt16LE(ZIP_VERSION_MADE_BY, 12);
+      zip64End.writeUInt16LE(45, 14);
+      zip64End.writeBigUInt64LE(BigInt(count), 24);
+      zip64End.writeBigUInt64LE(BigInt(count), 32);
+      zip64End.writeBigUInt64LE(BigInt(directorySize), 40);
+      zip64End.writeBigUInt64LE(BigInt(directoryOffset), 48);
+
+      const locator = Buffer.alloc(20);
+      locator.writeUInt32LE(0x07064b50, 0);
+      locator.writeBigUInt64LE(BigInt(this.offset), 8);
+      locator.writeUInt32LE(1, 16);
+      await this.write(Buffer.concat([zip64End, locator]));
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(zip64 ? 0xffff : count, 8);
+    end.writeUInt16LE(zip64 ? 0xffff : count, 10);
+    end.writeUInt32LE(zip64 ? ZIP32_LIMIT : directorySize, 12);
+    end.writeUInt32LE(zip64 ? ZIP32_LIMIT : directoryOffset, 16);
+    await this.write(end);
+    this.out.end();
+  }
+}
+
+const TAR_BLOCK = 512;
+// ustar 大小字段为 11 位八进制数
+const TAR_MAX_SIZE = 0o77777777777;
+
+function tarOctal(value: number, length: number): string {
+  return value.toString(8).padStart(length - 1, '0') + '\0';
+}
+
+// 将路径拆成 ustar 的 prefix（最多 155 字节）和 name（最多 100 字节），无法拆分时返回 null
+function splitTarName(name: string): { prefix: string; name: string } | null {
+  if (Buffer.byteLength(name) <= 100) {
+    return { prefix: '', name };
+  }
+  for (let index = name.indexOf('/'); index !== -1; index = name.indexOf('/', index + 1)) {
+    const prefix = name.slice(0, index);
+    const rest = name.slice(index + 1);
+    if (Buffer.byteLength(prefix) <= 155 && Buffer.byteLength(rest) <= 100) {
+      return { prefix, name: rest };
+    }
+  }
+  return null;
+}
+
+// pax 记录 "<长度> <键>=<值>\n"，长度包括自身的位数
+function paxRecord(key: string, value: string): string {
+  const body = ` ${key}=${value}\n`;
+  let length = Buffer.byteLength(body);
+  while (String(length).length + Buffer.byteLength(body) !== length) {
+    length = String(length).length + Buffer.byteLength(body);
+  }
+  return `${length}${body}`;
+}
+
+function tarHeader(name: string, prefix: string, size: number, mtime: Date, mode: number, typeflag: string): Buffer {
+  const header = Buffer.alloc(TAR_BLOCK);
+  header.write(name, 0, 100, 'utf8');
+  header.write(tarOctal(mode & 0o7777, 8), 100, 'ascii');
+  header.write(tarOctal(0, 8), 108, 'ascii');
+  header.write(tarOctal(0, 8), 116, 'ascii');
+  header.write(tarOctal(size, 12), 124, 'ascii');
+  header.write(tarOctal(Math.floor(mtime.getTime() / 1000), 12), 136, 'ascii');
+  header.write(typeflag, 156, 'ascii');
+  header.write('ustar\0', 257, 'ascii');
+  header.write('00', 263, 'ascii');
+  header.write(prefix, 345, 155, 'utf8');
+
+  // 校验和按校验和字段为空格计算
+  header.fill(0x20, 148, 156);
+  let checksum = 0;
+  for (let i = 0; i < TAR_BLOCK; i++) {
+    checksum += header[i];
+  }
+  header.write(checksum.toString(8).padStart(6, '0') + '\0 ', 148, 'ascii');
+  return header;
+}
+
+function tarPadding(size: number): Buffer {
+  return Buffer.alloc((TAR_BLOCK - size % TAR_BLOCK) % TAR_BLOCK);
+}
+
+// 流式写入 ustar 格式的 tar，超长路径和超过 8 GB 的文件使用 pax 扩展头部；输出流可以是 gzip 压缩流
+export class TarWriter implements ArchiveWriter {
+  private out: Writable;
+
+  constructor(out: Writable) {
+    this.out = out;
+  }
+
+  public async add(item: ArchiveItem, onData: (length: number) => void): Promise<void> {
+    const fullName = item.directory ? `${item.name}/` : item.name;
+    const size = item.directory ? 0 : item.size;
+    const split = splitTarName(fullName);
+
+    const pax = [
+      split ? '' : paxRecord('path', fullName),
+      size > TAR_MAX_SIZE ? paxRecord('size', String(size)) : ''
+    ].join('');
+    if (pax) {
+      const data = Buffer.from(pax, 'utf8');
+      const paxName = `PaxHeader/${fullName}`.slice(0, 100);
+      await writeChunk(this.out, tarHeader(paxName, '', data.length, item.mtime, 0o644, 'x'));
+      await writeChunk(this.out, Buffer.concat([data, tarPadding(data.length)]));
+    }
+
+    const { prefix, name } = split || { prefix: '', name: fullName.slice(0, 100) };
+    const headerSize = size > TAR_MAX_SIZE ? 0 : size;
+    await writeChunk(this.out, tarHeader(name, prefix, headerSize, item.mtime, item.mode, item.directory ? '5' : '0'));
+    if (item.directory) {
+      return;
+    }
+
+    // tar 头部中的大小在写入内容之前确定，文件在读取期间变化时按头部中的大小截断或补零
+    let written = 0;
+    const body = readItem(item, chunk => onData(chunk.length));
+    for await (const chunk of body) {
+      const part = (chunk as Buffer).subarray(0, Math.max(size - written, 0));
+      written += part.length;
+      if (part.length > 0) {
+        await writeChunk(this.out, part);
+      }
+    }
+    while (written < size) {
+      const filler = Buffer.alloc(Math.min(size - written, 64 * 1024));
+      written += filler.length;
+      await writeChunk(this.out, filler);
+    }
+    await writeChunk(this.out, tarPadding(size));
+  }
+
+  public async finish(): Promise<void> {
+    await writeChunk(this.out, Buffer.alloc(TAR_BLOCK * 2));
+    this.out.end();
+  }
+}
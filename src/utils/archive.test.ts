@@ -0,0 +1,350 @@
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { deflateRawSync, gzipSync } from 'zlib';
+import { archiveFormat, ArchiveFormat, ArchiveLimits, extractArchive, ExtractionResult } from './archive';
+import { UploadRejection } from './upload-policy';
+
+const LIMITS: ArchiveLimits = {
+  maxEntries: 100,
+  maxEntrySize: 1024 * 1024,
+  maxTotalSize: 50 * 1024 * 1024,
+  maxRatio: 100
+};
+
+interface TarEntry {
+  name: string;
+  data?: string | Buffer;
+  // 默认为普通文件
+  type?: string;
+  // 覆盖头部中声明的大小
+  size?: number;
+}
+
+function octal(value: number, length: number): string {
+  return value.toString(8).padStart(length - 1, '0') + '\0';
+}
+
+function tarHeader(name: string, size: number, type: string): Buffer {
+  const header = Buffer.alloc(512);
+  header.write(name, 0, 100, 'utf8');
+  header.write(octal(0o644, 8), 100, 'ascii');
+  header.write(octal(0, 8), 108, 'ascii');
+  header.write(octal(0, 8), 116, 'ascii');
+  header.write(octal(size, 12), 124, 'ascii');
+  header.write(octal(0, 12), 136, 'ascii');
+  header.write(type, 156, 'ascii');
+  header.write('ustar\0', 257, 'ascii');
+  header.write('00', 263, 'ascii');
+
+  header.fill(0x20, 148, 156);
+  let sum = 0;
+  for (const byte of header) {
+    sum += byte;
+  }
+  header.write(octal(sum, 7) + ' ', 148, 'ascii');
+  return header;
+}
+
+function tar(entries: TarEntry[]): Buffer {
+  const blocks: Buffer[] = [];
+  for (const entry of entries) {
+    const data = Buffer.from(entry.data ?? '');
+    blocks.push(tarHeader(entry.name, entry.size ?? data.length, entry.type ?? '0'), data);
+    blocks.push(Buffer.alloc((512 - data.length % 512) % 512));
+  }
+  blocks.push(Buffer.alloc(1024));
+  return Buffer.concat(blocks);
+}
+
+// pax 记录的长度包括长度字段本身
+function paxRecord(key: string, value: string): string {
+  const body = ` ${key}=${value}\n`;
+  let length = body.length + 1;
+  while (`${length}${body}`.length !== length) {
+    length++;
+  }
+  return `${length}${body}`;
+}
+
+interface ZipEntry {
+  name: string;
+  data?: string | Buffer;
+  deflate?: boolean;
+  // Unix 文件模式，写入外部属性的高 16 位
+  mode?: number;
+  // 覆盖中央目录中声明的解压后大小
+  size?: number;
+}
+
+// 读取器只使用中央目录中的大小和位置，不校验 CRC
+function zip(entries: ZipEntry[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name);
+    const data = Buffer.from(entry.data ?? '');
+    const stored = entry.deflate ? deflateRawSync(data) : data;
+    const method = entry.deflate ? 8 : 0;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(stored.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, stored);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(0x031e, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(stored.length, 20);
+    central.writeUInt32LE(entry.size ?? data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(((entry.mode ?? 0o100644) << 16) >>> 0, 38);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += 30 + name.length + stored.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+let baseDir: string;
+let stagingDir: string;
+
+beforeEach(() => {
+  baseDir = mkdtempSync(join(tmpdir(), 'archive-test-'));
+  stagingDir = join(baseDir, 'staging');
+});
+
+afterEach(() => {
+  rmSync(baseDir, { recursive: true, force: true });
+});
+
+function extract(data: Buffer, format: ArchiveFormat, limits: Partial<ArchiveLimits> = {}): Promise<ExtractionResult> {
+  const archivePath = join(baseDir, `archive.${format}`);
+  writeFileSync(archivePath, data);
+  return extractArchive(archivePath, format, stagingDir, { ...LIMITS, ...limits });
+}
+
+function staged(path: string): string {
+  return readFileSync(join(stagingDir, ...path.split('/')), 'utf-8');
+}
+
+async function rejectionOf(result: Promise<ExtractionResult>): Promise<UploadRejection> {
+  const settled = await result;
+  if (settled.ok) {
+    throw new Error('Expected the archive to be rejected');
+  }
+  return settled.rejection;
+}
+
+async function rejection(result: Promise<ExtractionResult>): Promise<string> {
+  return (await rejectionOf(result)).error;
+}
+
+describe('archiveFormat', () => {
+  it('maps detected MIME types to archive formats', () => {
+    expect(archiveFormat('application/zip')).toBe('zip');
+    expect(archiveFormat('application/x-tar')).toBe('tar');
+    expect(archiveFormat('application/gzip')).toBe('tar.gz');
+    expect(archiveFormat('text/plain')).toBeNull();
+  });
+});
+
+describe('extractArchive', () => {
+  it('extracts stored and deflated zip entries', async () => {
+    const result = await extract(zip([
+      { name: 'site/', mode: 0o40755 },
+      { name: 'site/index.html', data: '<h1>hi</h1>', deflate: true },
+      { name: 'site/empty.txt' },
+      { name: 'readme.txt', data: 'plain' }
+    ]), 'zip');
+
+    expect(result.ok).toBe(true);
+    expect(result.ok && result.entries.map(entry => [entry.path, entry.success])).toEqual([
+      ['site/index.html', true],
+      ['site/empty.txt', true],
+      ['readme.txt', true]
+    ]);
+    expect(staged('site/index.html')).toBe('<h1>hi</h1>');
+    expect(staged('site/empty.txt')).toBe('');
+    expect(staged('readme.txt')).toBe('plain');
+  });
+
+  it('extracts tar and tar.gz, including pax and GNU long names', async () => {
+    const longName = `${'d'.repeat(120)}/file.txt`;
+    const archive = tar([
+      { name: 'docs/', type: '5' },
+      { name: 'docs/a.txt', data: 'a'.repeat(700) },
+      { name: 'PaxHeader', type: 'x', data: paxRecord('path', 'pax/long-name.txt') },
+      { name: 'short', data: 'from pax' },
+      { name: '././@LongLink', type: 'L', data: `${longName}\0` },
+      { name: 'truncated', data: 'from gnu' }
+    ]);
+
+    for (const [format, data] of [['tar', archive], ['tar.gz', gzipSync(archive)]] as const) {
+      rmSync(stagingDir, { recursive: true, force: true });
+      const result = await extract(data, format);
+      expect(result.ok && result.entries.map(entry => entry.path)).toEqual(['docs/a.txt', 'pax/long-name.txt', longName]);
+      expect(staged('docs/a.txt')).toBe('a'.repeat(700));
+      expect(staged('pax/long-name.txt')).toBe('from pax');
+      expect(staged(longName)).toBe('from gnu');
+    }
+  });
+
+  describe('unsafe entries', () => {
+    const unsafe = ['../evil.txt', 'a/../../evil.txt', '/etc/evil.txt', 'C:/evil.txt', '..\\evil.txt'];
+
+    it('skips path traversal in zip and tar without writing outside the staging directory', async () => {
+      for (const [format, data] of [
+        ['zip', zip([...unsafe.map(name => ({ name, data: 'x' })), { name: 'ok.txt', data: 'ok' }])],
+        ['tar', tar([...unsafe.map(name => ({ name, data: 'x' })), { name: 'ok.txt', data: 'ok' }])]
+      ] as const) {
+        rmSync(stagingDir, { recursive: true, force: true });
+        const result = await extract(data, format);
+        if (!result.ok) throw new Error(result.rejection.message);
+
+        expect(result.entries.slice(0, unsafe.length).map(entry => [entry.name, entry.success, entry.error]))
+          .toEqual(unsafe.map(name => [name, false, 'invalid_path']));
+        expect(result.entries[unsafe.length]).toMatchObject({ path: 'ok.txt', success: true });
+        expect(readdirSync(stagingDir)).toEqual(['ok.txt']);
+        expect(existsSync(join(baseDir, 'evil.txt'))).toBe(false);
+      }
+    });
+
+    it('never creates symbolic or hard links', async () => {
+      const zipResult = await extract(zip([
+        { name: 'link', data: '/etc/passwd', mode: 0o120777 },
+        { name: 'link/inside.txt', data: 'x' }
+      ]), 'zip');
+      expect(zipResult.ok && zipResult.entries[0]).toMatchObject({ success: false, error: 'unsupported_entry' });
+      expect(existsSync(join(stagingDir, 'link', 'inside.txt'))).toBe(true);
+
+      rmSync(stagingDir, { recursive: true, force: true });
+      const tarResult = await extract(tar([
+        { name: 'symlink', type: '2' },
+        { name: 'hardlink', type: '1' },
+        { name: 'fifo', type: '6' }
+      ]), 'tar');
+      expect(tarResult.ok && tarResult.entries.map(entry => entry.error))
+        .toEqual(['unsupported_entry', 'unsupported_entry', 'unsupported_entry']);
+      expect(existsSync(stagingDir)).toBe(false);
+    });
+
+    it('keeps only the last of several entries with the same path', async () => {
+      const result = await extract(tar([{ name: 'same.txt', data: 'first' }, { name: './same.txt', data: 'second' }]), 'tar');
+      expect(result.ok && result.entries.map(entry => entry.success)).toEqual([false, true]);
+      expect(staged('same.txt')).toBe('second');
+    });
+  });
+
+  describe('limits', () => {
+    it('skips entries larger than maxEntrySize and extracts the rest', async () => {
+      for (const [format, data] of [
+        ['zip', zip([{ name: 'big.bin', data: 'x'.repeat(2000) }, { name: 'small.txt', data: 'ok' }])],
+        ['tar', tar([{ name: 'big.bin', data: 'x'.repeat(2000) }, { name: 'small.txt', data: 'ok' }])]
+      ] as const) {
+        rmSync(stagingDir, { recursive: true, force: true });
+        const result = await extract(data, format, { maxEntrySize: 1000 });
+        expect(result.ok && result.entries.map(entry => entry.error)).toEqual(['file_too_large', undefined]);
+        expect(existsSync(join(stagingDir, 'big.bin'))).toBe(false);
+        expect(staged('small.txt')).toBe('ok');
+      }
+    });
+
+    it('rejects archives with too many entries', async () => {
+      const entries = Array.from({ length: 5 }, (_, i) => ({ name: `${i}.txt`, data: 'x' }));
+      expect(await rejection(extract(zip(entries), 'zip', { maxEntries: 4 }))).toBe('archive_too_large');
+      expect(await rejection(extract(tar(entries), 'tar', { maxEntries: 4 }))).toBe('archive_too_large');
+    });
+
+    it('rejects archives whose content exceeds maxTotalSize', async () => {
+      const entries = [{ name: 'a.txt', data: 'x'.repeat(600) }, { name: 'b.txt', data: 'x'.repeat(600) }];
+      const total = { error: 'archive_too_large', message: expect.stringContaining('Extracted size') };
+      expect(await rejectionOf(extract(zip(entries), 'zip', { maxTotalSize: 1000 }))).toEqual(total);
+      expect(await rejectionOf(extract(tar(entries), 'tar', { maxTotalSize: 1000 }))).toEqual(total);
+    });
+
+    it('rejects zip and tar.gz bombs by compression ratio', async () => {
+      // 10 MB 的 0 压缩后只有约 10 KB，超过 64 KB * 100 的上限
+      const zeros = Buffer.alloc(10 * 1024 * 1024);
+      const ratio = { error: 'archive_too_large', message: expect.stringContaining('Compression ratio') };
+      expect(await rejectionOf(extract(zip([{ name: 'zeros.bin', data: zeros, deflate: true }]), 'zip', { maxEntrySize: zeros.length })))
+        .toEqual(ratio);
+
+      // 超过 maxEntrySize 的条目不写入，但解压出的数据仍计入压缩比
+      expect(await rejectionOf(extract(gzipSync(tar([{ name: 'zeros.bin', data: zeros }])), 'tar.gz'))).toEqual(ratio);
+    });
+
+    it('rejects entries whose data does not match the declared size', async () => {
+      const larger = zip([{ name: 'lie.txt', data: 'x'.repeat(5000), deflate: true, size: 10 }]);
+      expect(await rejection(extract(larger, 'zip'))).toBe('invalid_archive');
+
+      const smaller = zip([{ name: 'lie.txt', data: 'short', size: 100 }]);
+      expect(await rejection(extract(smaller, 'zip'))).toBe('invalid_archive');
+    });
+  });
+
+  describe('corrupt archives', () => {
+    it('rejects truncated or corrupt zip files', async () => {
+      const valid = zip([{ name: 'a.txt', data: 'hello', deflate: true }]);
+
+      expect(await rejection(extract(Buffer.from('not a zip file'), 'zip'))).toBe('invalid_archive');
+      expect(await rejection(extract(valid.subarray(0, valid.length - 30), 'zip'))).toBe('invalid_archive');
+
+      // 中央目录位置超出文件
+      const outOfBounds = Buffer.from(valid);
+      outOfBounds.writeUInt32LE(valid.length, valid.length - 6);
+      expect(await rejection(extract(outOfBounds, 'zip'))).toBe('invalid_archive');
+
+      // 本地文件头签名损坏
+      const badLocal = Buffer.from(valid);
+      badLocal.writeUInt32LE(0, 0);
+      expect(await rejection(extract(badLocal, 'zip'))).toBe('invalid_archive');
+
+      const badDeflate = zip([{ name: 'a.txt', data: 'hello' }]);
+      badDeflate.writeUInt16LE(8, 8);
+      badDeflate.writeUInt16LE(8, badDeflate.length - 22 - 46 - 'a.txt'.length + 10);
+      expect(await rejectionOf(extract(badDeflate, 'zip')))
+        .toEqual({ error: 'invalid_archive', message: expect.stringContaining('Corrupt archive') });
+    });
+
+    it('rejects truncated or corrupt tar files', async () => {
+      const valid = tar([{ name: 'a.txt', data: 'x'.repeat(1000) }]);
+
+      expect(await rejection(extract(Buffer.alloc(0), 'tar'))).toBe('invalid_archive');
+      expect(await rejection(extract(valid.subarray(0, 300), 'tar'))).toBe('invalid_archive');
+      expect(await rejection(extract(valid.subarray(0, 512 + 600), 'tar'))).toBe('invalid_archive');
+
+      const badChecksum = Buffer.from(valid);
+      badChecksum[0] ^= 0xff;
+      expect(await rejection(extract(badChecksum, 'tar'))).toBe('invalid_archive');
+
+      expect(await rejection(extract(Buffer.from('not gzip at all'), 'tar.gz'))).toBe('invalid_archive');
+      const gzipped = gzipSync(valid);
+      expect(await rejection(extract(gzipped.subarray(0, gzipped.length / 2), 'tar.gz'))).toBe('invalid_archive');
+    });
+
+    it('tolerates tar files without the trailing zero blocks', async () => {
+      const valid = tar([{ name: 'a.txt', data: 'hello' }]);
+      const result = await extract(valid.subarray(0, 1024), 'tar');
+      expect(result.ok).toBe(true);
+      expect(staged('a.txt')).toBe('hello');
+    });
+  });
+});
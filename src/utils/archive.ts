@@ -0,0 +1,602 @@
+import { closeSync, createReadStream, createWriteStream, existsSync, fstatSync, mkdirSync, openSync, readSync, statSync } from 'fs';
+import { dirname, join, resolve, sep } from 'path';
+import { pipeline as pipelineCallback, Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createGunzip, createInflateRaw } from 'zlib';
+import { UploadErrorCode } from '../types';
+import { sanitizeUploadPath } from './filename';
+import { UploadRejection } from './upload-policy';
+
+export type ArchiveFormat = 'zip' | 'tar' | 'tar.gz';
+
+export interface ArchiveLimits {
+  // 条目数上限（包括目录）
+  maxEntries: number;
+  // 单个文件解压后的最大字节数
+  maxEntrySize: number;
+  // 所有文件解压后的最大字节数
+  maxTotalSize: number;
+  // 解压后数据量与压缩包大小的最大比例
+  maxRatio: number;
+}
+
+// 压缩包中单个文件的处理结果
+export interface ArchiveEntry {
+  // 压缩包中的原始路径
+  name: string;
+  // 清理后相对解压目录的路径，被跳过的条目为空字符串
+  path: string;
+  size: number;
+  success: boolean;
+  error?: UploadErrorCode;
+  message?: string;
+}
+
+export type ExtractionResult =
+  | { ok: true; entries: ArchiveEntry[] }
+  | { ok: false; rejection: UploadRejection };
+
+interface RawEntry {
+  name: string;
+  type: 'file' | 'directory' | 'unsupported';
+  size: number;
+  // type 为 unsupported 时的原因
+  reason?: string;
+}
+
+type EntryVisitor = (entry: RawEntry, open: () => Readable) => Promise<void>;
+
+// 这些错误码表示压缩包本身有问题，整个解压失败
+const ARCHIVE_ERRORS: UploadErrorCode[] = ['invalid_archive', 'archive_too_large'];
+
+function archiveFailure(error: UploadErrorCode, message: string): Error {
+  return Object.assign(new Error(message), { code: error });
+}
+
+// 按文件头识别出的 MIME 类型判断压缩包格式；gzip 内容必须是 tar，解压时校验
+export function archiveFormat(mimeType: string): ArchiveFormat | null {
+  switch (mimeType) {
+    case 'application/zip':
+      return 'zip';
+    case 'application/x-tar':
+      return 'tar';
+    case 'application/gzip':
+      return 'tar.gz';
+    default:
+      return null;
+  }
+}
+
+// 拒绝绝对路径和包含 .. 的路径（zip slip），其余按上传路径的规则清理
+function entryPath(name: string): string | null {
+  const normalized = name.replace(/\\/g, '/');
+  const segments = normalized.split('/');
+  if (normalized.startsWith('/') || /^[a-zA-Z]:/.test(normalized) || segments.includes('..')) {
+    return null;
+  }
+  return sanitizeUploadPath(segments.filter(segment => segment !== '' && segment !== '.').join('/'));
+}
+
+// 计算压缩比时压缩包大小的下限：很小的 tar.gz 仅块填充就会有很高的压缩比
+const RATIO_MIN_ARCHIVE_SIZE = 64 * 1024;
+
+// 记录解压进度，超出限制时抛出 archive_too_large
+class ExtractionBudget {
+  private limits: ArchiveLimits;
+  private archiveSize: number;
+  private entries = 0;
+  private written = 0;
+  private inflated = 0;
+
+  constructor(limits: ArchiveLimits, archiveSize: number) {
+    this.limits = limits;
+    this.archiveSize = archiveSize;
+  }
+
+  public addEntry(): void {
+    this.entries++;
+    if (this.entries > this.limits.maxEntries) {
+      throw archiveFailure('archive_too_large', `Archive contains more than ${this.limits.maxEntries} entries`);
+    }
+  }
+
+  // 写入磁盘的文件内容
+  public addWritten(length: number): void {
+    this.written += length;
+    if (this.written > this.limits.maxTotalSize) {
+      throw archiveFailure('archive_too_large', `Extracted size exceeds the limit of ${this.limits.maxTotalSize} bytes`);
+    }
+    this.checkRatio(this.written);
+  }
+
+  // 解压出的全部数据（tar 中还包括头部和被跳过的条目）
+  public addInflated(length: number): void {
+    this.inflated += length;
+    this.checkRatio(this.inflated);
+  }
+
+  private checkRatio(size: number): void {
+    if (size > Math.max(this.archiveSize, RATIO_MIN_ARCHIVE_SIZE) * this.limits.maxRatio) {
+      throw archiveFailure('archive_too_large', `Compression ratio exceeds ${this.limits.maxRatio}:1`);
+    }
+  }
+}
+
+function readAt(fd: number, position: number, length: number): Buffer {
+  const buffer = Buffer.alloc(length);
+  const bytesRead = readSync(fd, buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY = 0x06064b50;
+const ZIP64_LOCATOR = 0x07064b50;
+const ZIP64_EXTRA_FIELD = 0x0001;
+
+interface ZipRecord {
+  entry: RawEntry;
+  method: number;
+  compressedSize: number;
+  // 压缩数据在文件中的起始位置
+  dataStart: number;
+}
+
+function findExtraField(extra: Buffer, id: number): Buffer | null {
+  let position = 0;
+  while (position + 4 <= extra.length) {
+    const fieldId = extra.readUInt16LE(position);
+    const length = extra.readUInt16LE(position + 2);
+    if (fieldId === id) {
+      return extra.subarray(position + 4, position + 4 + length);
+    }
+    position += 4 + length;
+  }
+  return null;
+}
+
+// 读取中央目录（条目的大小和位置以中央目录为准），支持 ZIP64
+function readZipDirectory(fd: number, maxEntries: number): ZipRecord[] {
+  const fileSize = fstatSync(fd).size;
+  const tailLength = Math.min(fileSize, 22 + 0xffff);
+  const tailStart = fileSize - tailLength;
+  const tail = readAt(fd, tailStart, tailLength);
+
+  let eocd = -1;
+  for (let i = tail.length - 22; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw archiveFailure('invalid_archive', 'ZIP end of central directory not found');
+  }
+
+  let count = tail.readUInt16LE(eocd + 10);
+  let directorySize = tail.readUInt32LE(eocd + 12);
+  let directoryOffset = tail.readUInt32LE(eocd + 16);
+
+  if (count === 0xffff || directorySize === 0xffffffff || directoryOffset === 0xffffffff) {
+    const locator = readAt(fd, Math.max(tailStart + eocd - 20, 0), 20);
+    if (locator.length < 20 || locator.readUInt32LE(0) !== ZIP64_LOCATOR) {
+      throw archiveFailure('invalid_archive', 'ZIP64 locator not found');
+    }
+    const zip64 = readAt(fd, Number(locator.readBigUInt64LE(8)), 56);
+    if (zip64.length < 56 || zip64.readUInt32LE(0) !== ZIP64_END_OF_CENTRAL_DIRECTORY) {
+      throw archiveFailure('invalid_archive', 'ZIP64 end of central directory not found');
+    }
+    count = Number(zip64.readBigUInt64LE(32));
+    directorySize = Number(zip64.readBigUInt64LE(40));
+    directoryOffset = Number(zip64.readBigUInt64LE(48));
+  }
+
+  // 在读取中央目录之前检查条目数，避免为伪造的巨大目录分配内存
+  if (count > maxEntries) {
+    throw archiveFailure('archive_too_large', `Archive contains more than ${maxEntries} entries`);
+  }
+  if (directoryOffset + directorySize > fileSize) {
+    throw archiveFailure('invalid_archive', 'ZIP central directory is out of bounds');
+  }
+
+  const directory = readAt(fd, directoryOffset, directorySize);
+  const records: ZipRecord[] = [];
+  let position = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (position + 46 > directory.length || directory.readUInt32LE(position) !== ZIP_CENTRAL_HEADER) {
+      throw archiveFailure('invalid_archive', 'Corrupt ZIP central directory');
+    }
+
+    const flags = directory.readUInt16LE(position + 8);
+    const method = directory.readUInt16LE(position + 10);
+    let compressedSize = directory.readUInt32LE(position + 20);
+    let size = directory.readUInt32LE(position + 24);
+    const nameLength = directory.readUInt16LE(position + 28);
+    const extraLength = directory.readUInt16LE(position + 30);
+    const commentLength = directory.readUInt16LE(position + 32);
+    const mode = directory.readUInt32LE(position + 38) >>> 16;
+    let localOffset = directory.readUInt32LE(position + 42);
+    const name = directory.toString('utf8', position + 46, position + 46 + nameLength);
+    const extra = directory.subarray(position + 46 + nameLength, position + 46 + nameLength + extraLength);
+    position += 46 + nameLength + extraLength + commentLength;
+
+    // ZIP64 扩展字段按顺序只包含取值为 0xffffffff 的字段
+    if (size === 0xffffffff || compressedSize === 0xffffffff || localOffset === 0xffffffff) {
+      const zip64 = findExtraField(extra, ZIP64_EXTRA_FIELD);
+      if (!zip64) {
+        throw archiveFailure('invalid_archive', `Missing ZIP64 sizes for ${name}`);
+      }
+      let offset = 0;
+      const next = () => {
+        const value = Number(zip64.readBigUInt64LE(offset));
+        offset += 8;
+        return value;
+      };
+      if (size === 0xffffffff) size = next();
+      if (compressedSize === 0xffffffff) compressedSize = next();
+      if (localOffset === 0xffffffff) localOffset = next();
+    }
+
+    const entry: RawEntry = { name, type: 'file', size };
+    if (name.endsWith('/')) {
+      entry.type = 'directory';
+    } else if ((mode & 0o170000) === 0o120000) {
+      entry.type = 'unsupported';
+      entry.reason = 'Symbolic links are not extracted';
+    } else if (flags & 0x1) {
+      entry.type = 'unsupported';
+      entry.reason = 'Encrypted entries are not supported';
+    } else if (method !== 0 && method !== 8) {
+      entry.type = 'unsupported';
+      entry.reason = `Unsupported compression method ${method}`;
+    }
+
+    // 本地文件头中的文件名和扩展字段长度可能与中央目录不同
+    let dataStart = 0;
+    if (entry.type === 'file') {
+      const local = readAt(fd, localOffset, 30);
+      if (local.length < 30 || local.readUInt32LE(0) !== ZIP_LOCAL_HEADER) {
+        throw archiveFailure('invalid_archive', `Corrupt ZIP local header for ${name}`);
+      }
+      dataStart = localOffset + 30 + local.readUInt16LE(26) + local.readUInt16LE(28);
+      if (dataStart + compressedSize > fileSize) {
+        throw archiveFailure('invalid_archive', `ZIP entry ${name} is out of bounds`);
+      }
+    }
+
+    records.push({ entry, method, compressedSize, dataStart });
+  }
+
+  return records;
+}
+
+async function readZip(archivePath: string, maxEntries: number, visit: EntryVisitor): Promise<void> {
+  const fd = openSync(archivePath, 'r');
+  let records: ZipRecord[];
+  try {
+    records = readZipDirectory(fd, maxEntries);
+  } finally {
+    closeSync(fd);
+  }
+
+  for (const record of records) {
+    await visit(record.entry, () => {
+      if (record.compressedSize === 0) {
+        return Readable.from([]);
+      }
+      const raw = createReadStream(archivePath, {
+        start: record.dataStart,
+        end: record.dataStart + record.compressedSize - 1
+      });
+      return record.method === 8 ? pipelineCallback(raw, createInflateRaw(), () => {}) : raw;
+    });
+  }
+}
+
+// 按需从流中读取指定字节数，用于顺序解析 tar
+class StreamReader {
+  private iterator: AsyncIterator<Buffer>;
+  private onData: (length: number) => void;
+  private buffer: Buffer = Buffer.alloc(0);
+  private done = false;
+
+  constructor(stream: Readable, onData: (length: number) => void) {
+    this.iterator = stream[Symbol.asyncIterator]();
+    this.onData = onData;
+  }
+
+  private async fill(): Promise<void> {
+    const { value, done } = await this.iterator.next();
+    if (done) {
+      this.done = true;
+      return;
+    }
+    this.onData(value.length);
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, value]) : value;
+  }
+
+  // 读取恰好 length 字节，数据不足时返回 null
+  public async read(length: number): Promise<Buffer | null> {
+    while (this.buffer.length < length && !this.done) {
+      await this.fill();
+    }
+    if (this.buffer.length < length) {
+      return null;
+    }
+    const result = this.buffer.subarray(0, length);
+    this.buffer = this.buffer.subarray(length);
+    return result;
+  }
+
+  // 逐块返回接下来的 length 字节
+  public async *chunks(length: number): AsyncGenerator<Buffer> {
+    let remaining = length;
+    while (remaining > 0) {
+      if (this.buffer.length === 0) {
+        if (this.done) {
+          throw archiveFailure('invalid_archive', 'Unexpected end of archive');
+        }
+        await this.fill();
+        continue;
+      }
+      const chunk = this.buffer.subarray(0, Math.min(remaining, this.buffer.length));
+      this.buffer = this.buffer.subarray(chunk.length);
+      remaining -= chunk.length;
+      yield chunk;
+    }
+  }
+
+  public async skip(length: number): Promise<void> {
+    for await (const chunk of this.chunks(length)) {
+      void chunk;
+    }
+  }
+}
+
+const TAR_BLOCK = 512;
+// pax 扩展头部和 GNU 长文件名的大小上限
+const TAR_MAX_METADATA = 1024 * 1024;
+
+function cString(field: Buffer): string {
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? field.length : end).toString('utf8');
+}
+
+// 八进制数字段；最高位为 1 时是 GNU 扩展的 base-256 编码
+function tarNumber(field: Buffer): number {
+  if (field[0] & 0x80) {
+    let value = field[0] & 0x7f;
+    for (let i = 1; i < field.length; i++) {
+      value = value * 256 + field[i];
+    }
+    return value;
+  }
+  const text = cString(field).trim();
+  return text ? parseInt(text, 8) : 0;
+}
+
+// 校验和按校验和字段为空格计算
+function tarChecksumValid(header: Buffer): boolean {
+  let sum = 0;
+  for (let i = 0; i < TAR_BLOCK; i++) {
+    sum += i >= 148 && i < 156 ? 0x20 : header[i];
+  }
+  return sum === tarNumber(header.subarray(148, 156));
+}
+
+// pax 记录格式为 "<长度> <键>=<值>\n"
+function parsePax(data: Buffer): Map<string, string> {
+  const records = new Map<string, string>();
+  let position = 0;
+  while (position < data.length) {
+    const space = data.indexOf(0x20, position);
+    const length = parseInt(data.toString('ascii', position, space), 10);
+    if (space === -1 || !(length > 0)) break;
+    const record = data.toString('utf8', space + 1, position + length - 1);
+    const separator = record.indexOf('=');
+    if (separator !== -1) {
+      records.set(record.slice(0, separator), record.slice(separator + 1));
+    }
+    position += length;
+  }
+  return records;
+}
+
+// 支持 ustar、pax（path、size）和 GNU 长文件名
+async function readTar(source: Readable, budget: ExtractionBudget, visit: EntryVisitor): Promise<void> {
+  const reader = new StreamReader(source, length => budget.addInflated(length));
+  let longName: string | null = null;
+  let pax = new Map<string, string>();
+  let first = true;
+
+  try {
+    while (true) {
+      // 部分工具不写结尾的两个空块
+      const header = await reader.read(TAR_BLOCK);
+      if (header === null && first) {
+        throw archiveFailure('invalid_archive', 'Not a tar archive');
+      }
+      if (header === null || header.every(byte => byte === 0)) {
+        return;
+      }
+      first = false;
+      if (!tarChecksumValid(header)) {
+        throw archiveFailure('invalid_archive', 'Invalid tar header checksum');
+      }
+
+      const typeflag = String.fromCharCode(header[156]);
+      const size = pax.has('size') ? Number(pax.get('size')) : tarNumber(header.subarray(124, 136));
+      if (!Number.isSafeInteger(size) || size < 0) {
+        throw archiveFailure('invalid_archive', 'Invalid tar entry size');
+      }
+      const padding = (TAR_BLOCK - size % TAR_BLOCK) % TAR_BLOCK;
+
+      // 元数据条目作用于下一个条目
+      if (typeflag === 'x' || typeflag === 'g' || typeflag === 'L') {
+        if (size > TAR_MAX_METADATA) {
+          throw archiveFailure('invalid_archive', 'Tar metadata entry is too large');
+        }
+        const data = await reader.read(size + padding);
+        if (data === null) {
+          throw archiveFailure('invalid_archive', 'Unexpected end of archive');
+        }
+        if (typeflag === 'L') {
+          longName = cString(data.subarray(0, size));
+        } else if (typeflag === 'x') {
+          pax = parsePax(data.subarray(0, size));
+        }
+        continue;
+      }
+
+      const prefix = header.toString('ascii', 257, 262) === 'ustar' ? cString(header.subarray(345, 500)) : '';
+      const name = pax.get('path') ?? longName ?? (prefix ? `${prefix}/` : '') + cString(header.subarray(0, 100));
+      longName = null;
+      pax = new Map();
+
+      const entry: RawEntry = { name, type: 'file', size };
+      if (typeflag === '5') {
+        entry.type = 'directory';
+      } else if (typeflag !== '0' && typeflag !== '\0' && typeflag !== '7') {
+        entry.type = 'unsupported';
+        entry.reason = typeflag === '1' || typeflag === '2'
+          ? 'Links are not extracted'
+          : `Unsupported tar entry type '${typeflag}'`;
+      }
+
+      let consumed = false;
+      await visit(entry, () => {
+        consumed = true;
+        return Readable.from(reader.chunks(size));
+      });
+      if (!consumed) {
+        await reader.skip(size);
+      }
+      if (padding > 0 && await reader.read(padding) === null) {
+        throw archiveFailure('invalid_archive', 'Unexpected end of archive');
+      }
+    }
+  } finally {
+    source.destroy();
+  }
+}
+
+// 写入单个文件，实际大小必须与压缩包中声明的一致
+async function writeEntry(source: Readable, targetPath: string, expectedSize: number, budget: ExtractionBudget): Promise<void> {
+  let written = 0;
+  const counter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      written += chunk.length;
+      if (written > expectedSize) {
+        callback(archiveFailure('invalid_archive', 'Entry is larger than its declared size'));
+        return;
+      }
+      try {
+        budget.addWritten(chunk.length);
+        callback(null, chunk);
+      } catch (error) {
+        callback(error as Error);
+      }
+    }
+  });
+
+  await pipeline(source, counter, createWriteStream(targetPath));
+  if (written !== expectedSize) {
+    throw archiveFailure('invalid_archive', 'Entry is smaller than its declared size');
+  }
+}
+
+// 将压缩包中的文件解压到 stagingDir；路径不安全、过大或不支持的条目被跳过并记录原因，
+// 压缩包损坏或超出限制时整个解压失败
+export async function extractArchive(
+  archivePath: string,
+  format: ArchiveFormat,
+  stagingDir: string,
+  limits: ArchiveLimits
+): Promise<ExtractionResult> {
+  const budget = new ExtractionBudget(limits, statSync(archivePath).size);
+  const root = resolve(stagingDir);
+  const entries: ArchiveEntry[] = [];
+
+  const visit: EntryVisitor = async (entry, open) => {
+    budget.addEntry();
+    if (entry.type === 'directory') {
+      return;
+    }
+
+    const report: ArchiveEntry = { name: entry.name, path: '', size: entry.size, success: false };
+    entries.push(report);
+
+    const path = entryPath(entry.name);
+    const targetPath = path === null ? null : resolve(root, ...path.split('/'));
+    if (path === null || targetPath === null || !targetPath.startsWith(root + sep)) {
+      report.error = 'invalid_path';
+      report.message = `Unsafe entry path: ${entry.name}`;
+      return;
+    }
+    if (entry.type === 'unsupported') {
+      report.error = 'unsupported_entry';
+      report.message = entry.reason;
+      return;
+    }
+    if (entry.size > limits.maxEntrySize) {
+      report.error = 'file_too_large';
+      report.message = `Entry size ${entry.size} bytes exceeds the limit of ${limits.maxEntrySize} bytes`;
+      return;
+    }
+
+    // 文件与前面条目创建的目录同名，或父目录与前面的文件同名
+    try {
+      mkdirSync(dirname(targetPath), { recursive: true });
+      if (existsSync(targetPath) && !statSync(targetPath).isFile()) {
+        throw new Error('not a file');
+      }
+    } catch {
+      report.error = 'invalid_path';
+      report.message = `Entry conflicts with another entry: ${entry.name}`;
+      return;
+    }
+
+    await writeEntry(open(), targetPath, entry.size, budget);
+    report.path = path;
+    report.success = true;
+  };
+
+  try {
+    if (format === 'zip') {
+      await readZip(archivePath, limits.maxEntries, visit);
+    } else {
+      const input = createReadStream(archivePath);
+      const source = format === 'tar.gz' ? pipelineCallback(input, createGunzip(), () => {}) : input;
+      await readTar(source, budget, visit);
+    }
+  } catch (error) {
+    const code = (error as { code?: unknown }).code;
+    if (ARCHIVE_ERRORS.includes(code as UploadErrorCode)) {
+      return { ok: false, rejection: { error: code as UploadErrorCode, message: (error as Error).message } };
+    }
+    // zlib 数据错误和越界读取都说明压缩包已损坏
+    if (error instanceof RangeError || (typeof code === 'string' && code.startsWith('Z_'))) {
+      return { ok: false, rejection: { error: 'invalid_archive', message: `Corrupt archive: ${(error as Error).message}` } };
+    }
+    throw error;
+  }
+
+  // 同一路径出现多次时以最后一个为准
+  const latest = new Map(entries.filter(entry => entry.success).map(entry => [entry.path, entry]));
+  for (const entry of entries) {
+    if (entry.success && latest.get(entry.path) !== entry) {
+      entry.success = false;
+      entry.error = 'invalid_path';
+      entry.message = `Replaced by a later entry with the same path: ${entry.path}`;
+    }
+  }
+
+  return { ok: true, entries };
+}
+
+// 条目在解压目录中的路径
+export function stagedPath(stagingDir: string, entry: ArchiveEntry): string {
+  return join(stagingDir, ...entry.path.split('/'));
+}
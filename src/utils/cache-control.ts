@@ -0,0 +1,47 @@
+import { CacheControlRule, PathPattern } from '../types';
+import { matchGlob } from './glob';
+
+export interface ResolvedCacheControl {
+  value: string;
+  // 命中的规则，未命中时为 null（使用默认值）
+  rule: CacheControlRule | null;
+}
+
+const regexCache = new Map<string, RegExp>();
+
+function toRegExp(source: string): RegExp {
+  let regex = regexCache.get(source);
+  if (!regex) {
+    regex = new RegExp(source);
+    regexCache.set(source, regex);
+  }
+  return regex;
+}
+
+export function matchesRule(pathname: string, rule: PathPattern): boolean {
+  if (rule.regex !== undefined) {
+    return toRegExp(rule.regex).test(pathname);
+  }
+  return rule.glob !== undefined && matchGlob(pathname, rule.glob);
+}
+
+// 按顺序匹配规则，第一条命中的规则生效
+export function resolveCacheControl(
+  pathname: string,
+  rules: CacheControlRule[],
+  defaultValue: string
+): ResolvedCacheControl {
+  for (const rule of rules) {
+    if (matchesRule(pathname, rule)) {
+      return { value: rule.value, rule };
+    }
+  }
+  return { value: defaultValue, rule: null };
+}
+
+export function describeRule(rule: PathPattern | null): string {
+  if (!rule) {
+    return 'default';
+  }
+  return rule.regex !== undefined ? `regex ${rule.regex}` : `glob ${rule.glob}`;
+}
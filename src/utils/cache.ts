@@ -1,5 +1,10 @@
 import crypto from 'crypto';
-import { CacheEntry } from '../types';
+import { CacheEntry, CompressionEncoding } from '../types';
+
+// 基于内容的强 ETag
+export function generateContentETag(content: Buffer): string {
+  return `"${crypto.createHash('sha1').update(content).digest('base64url')}"`;
+}
 
 export class MemoryCache {
   private cache = new Map<string, CacheEntry>();
@@ -10,12 +15,12 @@ export class MemoryCache {
     this.maxSize = maxSize;
   }
 
-  private generateETag(content: Buffer): string {
-    return `"${crypto.createHash('md5').update(content).digest('hex')}"`;
-  }
-
   private calculateSize(entry: CacheEntry): number {
-    return entry.content.length + (entry.compressed?.length || 0);
+    let size = entry.content.length;
+    for (const variant of Object.values(entry.variants)) {
+      size += variant?.length || 0;
+    }
+    return size;
   }
 
   private evictOldest(): void {
@@ -39,12 +44,23 @@ export class MemoryCache {
     return null;
   }
 
-  set(path: string, content: Buffer, mimeType: string, compressed?: Buffer): void {
+  // 读取条目但不改变 LRU 顺序，用于目录列表等只需查看缓存状态的场合
+  peek(path: string): CacheEntry | null {
+    return this.cache.get(path) || null;
+  }
+
+  set(
+    path: string,
+    content: Buffer,
+    mimeType: string,
+    etag: string = generateContentETag(content),
+    variants: Partial<Record<CompressionEncoding, Buffer>> = {}
+  ): void {
     const stat = require('fs').statSync(path);
     const entry: CacheEntry = {
       content,
-      compressed,
-      etag: this.generateETag(content),
+      variants,
+      etag,
       lastModified: stat.mtime.toUTCString(),
       mimeType,
       mtime: stat.mtime.getTime()
@@ -72,6 +88,34 @@ export class MemoryCache {
     this.currentSize += entrySize;
   }
 
+  // 为已缓存的条目添加一个压缩编码版本
+  setVariant(path: string, encoding: CompressionEncoding, compressed: Buffer): void {
+    const entry = this.cache.get(path);
+    if (!entry) {
+      return;
+    }
+
+    const previousSize = entry.variants[encoding]?.length || 0;
+    const sizeDelta = compressed.length - previousSize;
+
+    if (this.calculateSize(entry) + sizeDelta > this.maxSize) {
+      return;
+    }
+
+    entry.variants[encoding] = compressed;
+    this.currentSize += sizeDelta;
+
+    // 确保有足够空间，但不淘汰当前条目
+    while (this.currentSize > this.maxSize && this.cache.size > 1) {
+      const firstKey = this.cache.keys().next().value;
+      if (firstKey === path) {
+        this.get(path);
+        continue;
+      }
+      this.evictOldest();
+    }
+  }
+
   delete(path: string): void {
     const entry = this.cache.get(path);
     if (entry) {
@@ -80,6 +124,23 @@ export class MemoryCache {
     }
   }
 
+  // 删除某个目录下的所有条目，返回删除的数量
+  deleteByPrefix(prefix: string): number {
+    let count = 0;
+    for (const [key, entry] of this.cache) {
+      if (key.startsWith(prefix)) {
+        this.currentSize -= this.calculateSize(entry);
+        this.cache.delete(key);
+        count++;
+      }
+    }
+    return count;
+  }
+
+  has(path: string): boolean {
+    return this.cache.has(path);
+  }
+
   clear(): void {
     this.cache.clear();
     this.currentSize = 0;
@@ -0,0 +1,113 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { X509Certificate } from 'crypto';
+import selfsigned from 'selfsigned';
+import { HttpsConfig, Logger } from '../types';
+
+export interface TlsCredentials {
+  cert: string;
+  key: string;
+}
+
+const CERT_FILE = 'localhost-cert.pem';
+const KEY_FILE = 'localhost-key.pem';
+
+// 证书有效期（天）；剩余不足一天时重新生成
+const VALIDITY_DAYS = 365;
+const RENEW_BEFORE_MS = 24 * 60 * 60 * 1000;
+
+// 证书需要覆盖的主机名和本机地址（含局域网 IP，便于手机等设备访问）
+export function getLocalSubjectNames(): { dns: string[]; ips: string[] } {
+  const dns = ['localhost', os.hostname()];
+  const ips = ['127.0.0.1', '::1'];
+
+  for (const addresses of Object.values(os.networkInterfaces())) {
+    for (const address of addresses || []) {
+      // IPv6 链路本地地址带作用域，无法写入证书
+      if (address.family === 'IPv6' && address.scopeid) continue;
+      if (!ips.includes(address.address)) {
+        ips.push(address.address);
+      }
+    }
+  }
+
+  return { dns: Array.from(new Set(dns)), ips };
+}
+
+function coversSubjectNames(certificate: X509Certificate, names: { dns: string[]; ips: string[] }): boolean {
+  return names.dns.every(name => certificate.checkHost(name) !== undefined)
+    && names.ips.every(ip => certificate.checkIP(ip) !== undefined);
+}
+
+function isReusable(certPath: string, names: { dns: string[]; ips: string[] }): boolean {
+  try {
+    const certificate = new X509Certificate(fs.readFileSync(certPath));
+    const expiresAt = new Date(certificate.validTo).getTime();
+    return expiresAt - Date.now() > RENEW_BEFORE_MS && coversSubjectNames(certificate, names);
+  } catch {
+    return false;
+  }
+}
+
+function generateCertificate(names: { dns: string[]; ips: string[] }): TlsCredentials {
+  const altNames = [
+    ...names.dns.map(value => ({ type: 2, value })),
+    ...names.ips.map(ip => ({ type: 7, ip }))
+  ];
+
+  const pems = selfsigned.generate(
+    [
+      { name: 'commonName', value: 'localhost' },
+      { name: 'organizationName', value: 'Gzip Static Server (development)' }
+    ],
+    {
+      days: VALIDITY_DAYS,
+      keySize: 2048,
+      algorithm: 'sha256',
+      extensions: [
+        { name: 'basicConstraints', cA: false },
+        { name: 'keyUsage', digitalSignature: true, keyEncipherment: true },
+        { name: 'extKeyUsage', serverAuth: true },
+        { name: 'subjectAltName', altNames }
+      ]
+    }
+  );
+
+  return { cert: pems.cert, key: pems.private };
+}
+
+// 使用配置的证书；未配置时复用或生成自签名的开发证书
+export function loadCredentials(config: HttpsConfig, logger: Logger): TlsCredentials {
+  if (config.cert || config.key) {
+    if (!config.cert || !config.key) {
+      throw new Error('Both https.cert and https.key must be provided');
+    }
+    return {
+      cert: fs.readFileSync(config.cert, 'utf-8'),
+      key: fs.readFileSync(config.key, 'utf-8')
+    };
+  }
+
+  const certPath = path.join(config.certDir, CERT_FILE);
+  const keyPath = path.join(config.certDir, KEY_FILE);
+  const names = getLocalSubjectNames();
+
+  if (fs.existsSync(keyPath) && isReusable(certPath, names)) {
+    logger.debug(`Using development certificate: ${certPath}`);
+    return {
+      cert: fs.readFileSync(certPath, 'utf-8'),
+      key: fs.readFileSync(keyPath, 'utf-8')
+    };
+  }
+
+  logger.info(`🔐 Generating self-signed certificate for ${[...names.dns, ...names.ips].join(', ')}`);
+  const credentials = generateCertificate(names);
+
+  fs.mkdirSync(config.certDir, { recursive: true });
+  fs.writeFileSync(certPath, credentials.cert);
+  fs.writeFileSync(keyPath, credentials.key, { mode: 0o600 });
+  logger.info(`🔐 Certificate saved to ${certPath} (trust it in your OS/browser to avoid warnings)`);
+
+  return credentials;
+}
@@ -0,0 +1,105 @@
+import { IncomingHttpHeaders, IncomingMessage } from 'http';
+import {
+  encodingETag,
+  evaluatePreconditions,
+  isRangeFresh,
+  parseETagList,
+  strongMatch,
+  Validators,
+  weakMatch
+} from './conditional';
+
+const LAST_MODIFIED = new Date('2024-05-01T12:00:00.750Z');
+const validators: Validators = { etag: '"v1"', lastModified: LAST_MODIFIED };
+
+const BEFORE = 'Wed, 01 May 2024 11:00:00 GMT';
+const SAME_SECOND = 'Wed, 01 May 2024 12:00:00 GMT';
+const AFTER = 'Wed, 01 May 2024 13:00:00 GMT';
+
+function request(headers: IncomingHttpHeaders, method: string = 'GET'): IncomingMessage {
+  return { method, headers } as IncomingMessage;
+}
+
+describe('entity tag helpers', () => {
+  it('parses tag lists, weak tags and *', () => {
+    expect(parseETagList('"a", W/"b" ,"c,d"')).toEqual(['"a"', 'W/"b"', '"c,d"']);
+    expect(parseETagList('*')).toEqual(['*']);
+    expect(parseETagList('')).toEqual([]);
+  });
+
+  it('compares strongly and weakly', () => {
+    expect(strongMatch('"a"', '"a"')).toBe(true);
+    expect(strongMatch('W/"a"', '"a"')).toBe(false);
+    expect(weakMatch('W/"a"', '"a"')).toBe(true);
+    expect(weakMatch('"a"', '"b"')).toBe(false);
+  });
+
+  it('derives per-encoding tags', () => {
+    expect(encodingETag('"abc"', 'br')).toBe('"abc-br"');
+  });
+});
+
+describe('evaluatePreconditions', () => {
+  it('proceeds without conditional headers', () => {
+    expect(evaluatePreconditions(request({}), validators)).toBe('proceed');
+  });
+
+  it('fails If-Match unless a tag matches strongly', () => {
+    expect(evaluatePreconditions(request({ 'if-match': '"v1"' }), validators)).toBe('proceed');
+    expect(evaluatePreconditions(request({ 'if-match': '*' }), validators)).toBe('proceed');
+    expect(evaluatePreconditions(request({ 'if-match': 'W/"v1"' }), validators)).toBe('precondition-failed');
+    expect(evaluatePreconditions(request({ 'if-match': '"v0", "v2"' }), validators)).toBe('precondition-failed');
+  });
+
+  it('applies If-Unmodified-Since only without If-Match', () => {
+    expect(evaluatePreconditions(request({ 'if-unmodified-since': BEFORE }), validators)).toBe('precondition-failed');
+    expect(evaluatePreconditions(request({ 'if-unmodified-since': SAME_SECOND }), validators)).toBe('proceed');
+    expect(evaluatePreconditions(request({ 'if-match': '"v1"', 'if-unmodified-since': BEFORE }), validators)).toBe('proceed');
+  });
+
+  it('answers If-None-Match with 304 for GET/HEAD and 412 otherwise', () => {
+    expect(evaluatePreconditions(request({ 'if-none-match': 'W/"v1"' }), validators)).toBe('not-modified');
+    expect(evaluatePreconditions(request({ 'if-none-match': '"v1"' }, 'HEAD'), validators)).toBe('not-modified');
+    expect(evaluatePreconditions(request({ 'if-none-match': '*' }, 'PUT'), validators)).toBe('precondition-failed');
+    expect(evaluatePreconditions(request({ 'if-none-match': '"v2"' }), validators)).toBe('proceed');
+  });
+
+  it('ignores If-Modified-Since when If-None-Match is present', () => {
+    const headers = { 'if-none-match': '"v2"', 'if-modified-since': AFTER };
+    expect(evaluatePreconditions(request(headers), validators)).toBe('proceed');
+  });
+
+  it('compares If-Modified-Since at one-second precision', () => {
+    expect(evaluatePreconditions(request({ 'if-modified-since': SAME_SECOND }), validators)).toBe('not-modified');
+    expect(evaluatePreconditions(request({ 'if-modified-since': AFTER }), validators)).toBe('not-modified');
+    expect(evaluatePreconditions(request({ 'if-modified-since': BEFORE }), validators)).toBe('proceed');
+    expect(evaluatePreconditions(request({ 'if-modified-since': 'not a date' }), validators)).toBe('proceed');
+  });
+
+  it('does not use If-Modified-Since for unsafe methods', () => {
+    expect(evaluatePreconditions(request({ 'if-modified-since': AFTER }, 'POST'), validators)).toBe('proceed');
+  });
+
+  it('evaluates If-Match before If-None-Match', () => {
+    const headers = { 'if-match': '"v2"', 'if-none-match': '"v1"' };
+    expect(evaluatePreconditions(request(headers), validators)).toBe('precondition-failed');
+  });
+});
+
+describe('isRangeFresh', () => {
+  it('is fresh without If-Range', () => {
+    expect(isRangeFresh(request({}), validators)).toBe(true);
+  });
+
+  it('requires a strong entity tag match', () => {
+    expect(isRangeFresh(request({ 'if-range': '"v1"' }), validators)).toBe(true);
+    expect(isRangeFresh(request({ 'if-range': 'W/"v1"' }), validators)).toBe(false);
+    expect(isRangeFresh(request({ 'if-range': '"v2"' }), validators)).toBe(false);
+  });
+
+  it('requires an exact Last-Modified date match', () => {
+    expect(isRangeFresh(request({ 'if-range': SAME_SECOND }), validators)).toBe(true);
+    expect(isRangeFresh(request({ 'if-range': AFTER }), validators)).toBe(false);
+    expect(isRangeFresh(request({ 'if-range': 'garbage' }), validators)).toBe(false);
+  });
+});
@@ -0,0 +1,123 @@
+import { IncomingMessage } from 'http';
+
+export interface Validators {
+  etag: string;
+  lastModified: Date;
+}
+
+export type PreconditionResult = 'proceed' | 'not-modified' | 'precondition-failed';
+
+// 解析 If-Match / If-None-Match 中的实体标签列表，* 原样返回
+export function parseETagList(header: string): string[] {
+  const tags: string[] = [];
+  const pattern = /\s*(\*|(?:W\/)?"[^"]*")\s*(?:,|$)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(header)) !== null) {
+    tags.push(match[1]);
+  }
+
+  return tags;
+}
+
+function isWeak(tag: string): boolean {
+  return tag.startsWith('W/');
+}
+
+function opaqueTag(tag: string): string {
+  return isWeak(tag) ? tag.slice(2) : tag;
+}
+
+// 强比较：两者都不能是弱标签，且内容完全相同
+export function strongMatch(a: string, b: string): boolean {
+  return !isWeak(a) && !isWeak(b) && a === b;
+}
+
+// 弱比较：忽略 W/ 前缀
+export function weakMatch(a: string, b: string): boolean {
+  return opaqueTag(a) === opaqueTag(b);
+}
+
+function parseHttpDate(value: string | undefined): number | null {
+  if (!value) {
+    return null;
+  }
+  const time = Date.parse(value);
+  return isNaN(time) ? null : time;
+}
+
+// HTTP 日期只精确到秒
+function toHttpTime(date: Date): number {
+  return Math.floor(date.getTime() / 1000) * 1000;
+}
+
+function headerValue(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value.join(', ') : value;
+}
+
+// 按 RFC 9110 第 13.2.2 节的顺序计算前置条件
+export function evaluatePreconditions(req: IncomingMessage, validators: Validators): PreconditionResult {
+  const method = req.method || 'GET';
+  const isSafe = method === 'GET' || method === 'HEAD';
+  const lastModified = toHttpTime(validators.lastModified);
+
+  // 1. If-Match（强比较）
+  const ifMatch = headerValue(req, 'if-match');
+  if (ifMatch !== undefined) {
+    const tags = parseETagList(ifMatch);
+    const matched = tags.includes('*') || tags.some(tag => strongMatch(tag, validators.etag));
+    if (!matched) {
+      return 'precondition-failed';
+    }
+  } else {
+    // 2. If-Unmodified-Since（仅在没有 If-Match 时使用）
+    const ifUnmodifiedSince = parseHttpDate(headerValue(req, 'if-unmodified-since'));
+    if (ifUnmodifiedSince !== null && lastModified > ifUnmodifiedSince) {
+      return 'precondition-failed';
+    }
+  }
+
+  // 3. If-None-Match（弱比较）
+  const ifNoneMatch = headerValue(req, 'if-none-match');
+  if (ifNoneMatch !== undefined) {
+    const tags = parseETagList(ifNoneMatch);
+    const matched = tags.includes('*') || tags.some(tag => weakMatch(tag, validators.etag));
+    if (matched) {
+      return isSafe ? 'not-modified' : 'precondition-failed';
+    }
+    return 'proceed';
+  }
+
+  // 4. If-Modified-Since（仅在没有 If-None-Match 时对 GET/HEAD 使用）
+  if (isSafe) {
+    const ifModifiedSince = parseHttpDate(headerValue(req, 'if-modified-since'));
+    if (ifModifiedSince !== null && lastModified <= ifModifiedSince) {
+      return 'not-modified';
+    }
+  }
+
+  return 'proceed';
+}
+
+// 5. If-Range：只有校验器与当前版本一致（或未提供）时才处理 Range
+export function isRangeFresh(req: IncomingMessage, validators: Validators): boolean {
+  const ifRange = headerValue(req, 'if-range');
+  if (!ifRange) {
+    return true;
+  }
+
+  // ETag 形式：必须强匹配
+  if (ifRange.startsWith('"') || ifRange.startsWith('W/')) {
+    return strongMatch(ifRange.trim(), validators.etag);
+  }
+
+  // 日期形式：必须与 Last-Modified 完全一致
+  const date = parseHttpDate(ifRange);
+  return date !== null && date === toHttpTime(validators.lastModified);
+}
+
+// 压缩版本使用独立的 ETag，例如 "abc" -> "abc-br"
+export function encodingETag(etag: string, encoding: string): string {
+  return etag.replace(/"$/, `-${encoding}"`);
+}
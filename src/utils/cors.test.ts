@@ -0,0 +1,119 @@
+import http, { Server } from 'http';
+import { AddressInfo } from 'net';
+import { handleCors, isOriginAllowed } from './cors';
+import { defaultConfig } from '../config';
+import { CorsConfig } from '../types';
+import { request } from '../test/http';
+
+const PREFLIGHT = { 'Origin': 'http://app.test', 'Access-Control-Request-Method': 'PUT' };
+
+let server: Server;
+let port: number;
+// 每个测试设置的 CORS 配置；路径以 /api/ 开头时按内置 API 请求处理
+let config: CorsConfig;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    if (!handleCors(req, res, config, (req.url || '').startsWith('/api/'))) {
+      res.end('ok');
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  port = (server.address() as AddressInfo).port;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+function cors(overrides: Partial<CorsConfig>): void {
+  config = { ...defaultConfig.cors, ...overrides };
+}
+
+describe('isOriginAllowed', () => {
+  it('matches wildcards, exact origins and regular expressions', () => {
+    const origins = ['http://localhost:5173', '/^https:\\/\\/([a-z0-9-]+\\.)*example\\.test$/i'];
+    expect(isOriginAllowed('http://anything.test', ['*'])).toBe(true);
+    expect(isOriginAllowed('http://localhost:5173', origins)).toBe(true);
+    expect(isOriginAllowed('http://localhost:5174', origins)).toBe(false);
+    expect(isOriginAllowed('https://cdn.EXAMPLE.test', origins)).toBe(true);
+    expect(isOriginAllowed('https://example.test.evil.com', origins)).toBe(false);
+    expect(isOriginAllowed('http://example.test', origins)).toBe(false);
+  });
+});
+
+describe('handleCors', () => {
+  it('applies only to API requests in the default api mode', async () => {
+    cors({});
+    const api = await request(port, '/api/files', { headers: { Origin: 'http://app.test' } });
+    expect(api.headers['access-control-allow-origin']).toBe('*');
+    expect(api.headers['access-control-expose-headers']).toContain('ETag');
+    expect(api.headers['vary']).toBeUndefined();
+
+    const file = await request(port, '/index.html', { headers: { Origin: 'http://app.test' } });
+    expect(file.headers['access-control-allow-origin']).toBeUndefined();
+  });
+
+  it('sends nothing when disabled', async () => {
+    cors({ enabled: false });
+    const res = await request(port, '/api/files', { method: 'OPTIONS', headers: PREFLIGHT });
+    expect(res.status).toBe(200);
+    expect(res.headers['access-control-allow-origin']).toBeUndefined();
+  });
+
+  it('answers preflights with the configured methods, headers and max age', async () => {
+    cors({ enabled: true, allowedHeaders: ['Content-Type', 'Upload-Offset'], maxAge: 120 });
+    const res = await request(port, '/index.html', { method: 'OPTIONS', headers: PREFLIGHT });
+    expect(res.status).toBe(204);
+    expect(res.body.length).toBe(0);
+    expect(res.headers['access-control-allow-origin']).toBe('*');
+    expect(res.headers['access-control-allow-methods']).toBe(defaultConfig.cors.methods.join(', '));
+    expect(res.headers['access-control-allow-headers']).toBe('Content-Type, Upload-Offset');
+    expect(res.headers['access-control-max-age']).toBe('120');
+  });
+
+  it('echoes the requested headers when none are configured', async () => {
+    cors({ enabled: true, maxAge: null });
+    const res = await request(port, '/index.html', {
+      method: 'OPTIONS',
+      headers: { ...PREFLIGHT, 'Access-Control-Request-Headers': 'x-custom, content-type' }
+    });
+    expect(res.headers['access-control-allow-headers']).toBe('x-custom, content-type');
+    expect(res.headers['vary']).toBe('Access-Control-Request-Headers');
+    expect(res.headers['access-control-max-age']).toBeUndefined();
+  });
+
+  it('leaves OPTIONS requests that are not preflights to the route', async () => {
+    cors({ enabled: true });
+    const res = await request(port, '/index.html', { method: 'OPTIONS', headers: { Origin: 'http://app.test' } });
+    expect(res.status).toBe(200);
+    expect(res.body.toString()).toBe('ok');
+  });
+
+  it('echoes allowed origins from the allow-list and varies on Origin', async () => {
+    cors({ enabled: true, origins: ['http://app.test', '/^http:\\/\\/[a-z]+\\.dev\\.test$/'], credentials: true });
+    for (const origin of ['http://app.test', 'http://feature.dev.test']) {
+      const res = await request(port, '/index.html', { headers: { Origin: origin } });
+      expect(res.headers['access-control-allow-origin']).toBe(origin);
+      expect(res.headers['access-control-allow-credentials']).toBe('true');
+      expect(res.headers['vary']).toBe('Origin');
+    }
+
+    const noOrigin = await request(port, '/index.html');
+    expect(noOrigin.headers['access-control-allow-origin']).toBeUndefined();
+    expect(noOrigin.headers['vary']).toBe('Origin');
+  });
+
+  it('ends preflights from other origins without CORS headers', async () => {
+    cors({ enabled: true, origins: ['http://app.test'] });
+    const res = await request(port, '/api/files', { method: 'OPTIONS', headers: { ...PREFLIGHT, Origin: 'http://evil.test' } });
+    expect(res.status).toBe(204);
+    expect(res.headers['access-control-allow-origin']).toBeUndefined();
+    expect(res.headers['access-control-allow-methods']).toBeUndefined();
+    expect(res.headers['vary']).toBe('Origin');
+
+    const actual = await request(port, '/api/files', { headers: { Origin: 'http://evil.test' } });
+    expect(actual.headers['access-control-allow-origin']).toBeUndefined();
+    expect(actual.headers['access-control-expose-headers']).toBeUndefined();
+  });
+});
@@ -0,0 +1,101 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { CorsConfig } from '../types';
+import { appendVary } from './vary';
+
+const regexCache = new Map<string, RegExp | null>();
+
+// 形如 /^https:\/\/.*\.example\.com$/i 的字符串按正则处理
+export function parseOriginPattern(pattern: string): RegExp | null {
+  if (regexCache.has(pattern)) {
+    return regexCache.get(pattern) as RegExp | null;
+  }
+
+  const match = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+  const regex = match ? new RegExp(match[1], match[2]) : null;
+  regexCache.set(pattern, regex);
+  return regex;
+}
+
+export function isOriginAllowed(origin: string, origins: string[]): boolean {
+  return origins.some((pattern) => {
+    if (pattern === '*') {
+      return true;
+    }
+    const regex = parseOriginPattern(pattern);
+    return regex ? regex.test(origin) : pattern === origin;
+  });
+}
+
+// 允许所有源且不带凭据时可以直接返回 *，否则需要回显请求的源
+function allowOrigin(res: ServerResponse, origin: string, config: CorsConfig): boolean {
+  const wildcard = config.origins.includes('*') && !config.credentials;
+
+  if (!wildcard) {
+    appendVary(res, 'Origin');
+  }
+
+  if (!isOriginAllowed(origin, config.origins)) {
+    return false;
+  }
+
+  res.setHeader('Access-Control-Allow-Origin', wildcard ? '*' : origin);
+  if (config.credentials) {
+    res.setHeader('Access-Control-Allow-Credentials', 'true');
+  }
+  return true;
+}
+
+export function isPreflight(req: IncomingMessage): boolean {
+  return req.method === 'OPTIONS'
+    && req.headers.origin !== undefined
+    && req.headers['access-control-request-method'] !== undefined;
+}
+
+// 设置 CORS 头部；返回 true 表示预检请求已经处理完毕
+export function handleCors(req: IncomingMessage, res: ServerResponse, config: CorsConfig, isApiRequest: boolean): boolean {
+  if (config.enabled === false || (config.enabled === 'api' && !isApiRequest)) {
+    return false;
+  }
+
+  const origin = req.headers.origin;
+  if (origin === undefined) {
+    if (!config.origins.includes('*') || config.credentials) {
+      appendVary(res, 'Origin');
+    }
+    return false;
+  }
+
+  const allowed = allowOrigin(res, origin, config);
+
+  if (!isPreflight(req)) {
+    if (allowed && config.exposedHeaders.length > 0) {
+      res.setHeader('Access-Control-Expose-Headers', config.exposedHeaders.join(', '));
+    }
+    return false;
+  }
+
+  // 不允许的源也结束预检，只是不带 CORS 头部，由浏览器拒绝实际请求
+  if (allowed) {
+    res.setHeader('Access-Control-Allow-Methods', config.methods.join(', '));
+
+    if (config.allowedHeaders.length > 0) {
+      res.setHeader('Access-Control-Allow-Headers', config.allowedHeaders.join(', '));
+    } else {
+      // 未配置时回显预检请求中声明的头部
+      appendVary(res, 'Access-Control-Request-Headers');
+      const requestHeaders = req.headers['access-control-request-headers'];
+      if (requestHeaders) {
+        res.setHeader('Access-Control-Allow-Headers', requestHeaders);
+      }
+    }
+
+    if (config.maxAge !== null) {
+      res.setHeader('Access-Control-Max-Age', String(config.maxAge));
+    }
+  }
+
+  res.setHeader('Content-Length', '0');
+  res.writeHead(204);
+  res.end();
+  return true;
+}
@@ -0,0 +1,24 @@
+import { contentDisposition } from './disposition';
+
+describe('contentDisposition', () => {
+  it('keeps ASCII names in both parameters', () => {
+    expect(contentDisposition('report.pdf')).toBe(`attachment; filename="report.pdf"; filename*=UTF-8''report.pdf`);
+  });
+
+  it('uses the last path segment', () => {
+    expect(contentDisposition('a/b\\c.txt')).toBe(`attachment; filename="c.txt"; filename*=UTF-8''c.txt`);
+    expect(contentDisposition('dir/')).toBe(`attachment; filename="download"; filename*=UTF-8''download`);
+  });
+
+  it('replaces non-ASCII, quotes and backslashes in the fallback and percent-encodes filename*', () => {
+    expect(contentDisposition('报告 "最终".txt')).toBe(
+      `attachment; filename="__ ____.txt"; filename*=UTF-8''%E6%8A%A5%E5%91%8A%20%22%E6%9C%80%E7%BB%88%22.txt`
+    );
+  });
+
+  it('percent-encodes characters outside the RFC 5987 attr-char set', () => {
+    expect(contentDisposition("it's (final) *draft*.txt")).toBe(
+      `attachment; filename="it's (final) *draft*.txt"; filename*=UTF-8''it%27s%20%28final%29%20%2Adraft%2A.txt`
+    );
+  });
+});
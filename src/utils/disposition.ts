@@ -0,0 +1,11 @@
+// RFC 5987 的 attr-char 不包含 encodeURIComponent 保留的 ' ( ) *，需要额外编码
+function encodeExtValue(value: string): string {
+  return encodeURIComponent(value).replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+// 附件下载的 Content-Disposition，非 ASCII 文件名通过 filename* 传递
+export function contentDisposition(name: string): string {
+  const filename = name.split(/[/\\]/).pop() || 'download';
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeExtValue(filename)}`;
+}
@@ -0,0 +1,92 @@
+import { sanitizeFilename, sanitizeFolder, sanitizeUploadPath } from './filename';
+
+describe('sanitizeFilename', () => {
+  it('prefixes reserved Windows device names, with or without an extension', () => {
+    expect(sanitizeFilename('CON')).toBe('_CON');
+    expect(sanitizeFilename('nul.txt')).toBe('_nul.txt');
+    expect(sanitizeFilename('com1.tar.gz')).toBe('_com1.tar.gz');
+    expect(sanitizeFilename('LPT9')).toBe('_LPT9');
+    expect(sanitizeFilename('console.log')).toBe('console.log');
+    expect(sanitizeFilename('com10')).toBe('com10');
+  });
+
+  it('replaces control and reserved characters', () => {
+    expect(sanitizeFilename('a\u0000b\u001fc\u007fd.txt')).toBe('a_b_c_d.txt');
+    expect(sanitizeFilename('a<b>c:d"e|f?g*h.txt')).toBe('a_b_c_d_e_f_g_h.txt');
+  });
+
+  it('removes bidi controls and zero-width characters that disguise extensions', () => {
+    expect(sanitizeFilename('invoice\u202etxt.exe')).toBe('invoicetxt.exe');
+    expect(sanitizeFilename('photo\u200b.jpg\u2066.exe')).toBe('photo.jpg.exe');
+    expect(sanitizeFilename('\ufeffbom.txt')).toBe('bom.txt');
+  });
+
+  it('keeps only the last path segment', () => {
+    expect(sanitizeFilename('../../etc/passwd')).toBe('passwd');
+    expect(sanitizeFilename('C:\\Windows\\system.ini')).toBe('system.ini');
+    expect(sanitizeFilename('..')).toBe('unnamed');
+    expect(sanitizeFilename('dir/')).toBe('unnamed');
+  });
+
+  it('strips leading dots and trailing dots and spaces', () => {
+    expect(sanitizeFilename('.htaccess')).toBe('htaccess');
+    expect(sanitizeFilename('report.txt. . ')).toBe('report.txt');
+    expect(sanitizeFilename('  spaced name  ')).toBe('spaced name');
+    expect(sanitizeFilename('...')).toBe('unnamed');
+    expect(sanitizeFilename('con. ')).toBe('_con');
+  });
+
+  it('normalizes to NFC', () => {
+    expect(sanitizeFilename('cafe\u0301.txt')).toBe('caf\u00e9.txt');
+  });
+
+  it('truncates long names to 240 bytes and keeps the extension', () => {
+    const ascii = sanitizeFilename(`${'a'.repeat(300)}.txt`);
+    expect(Buffer.byteLength(ascii)).toBe(240);
+    expect(ascii).toBe(`${'a'.repeat(236)}.txt`);
+
+    // 三字节的中文字符不能被拆开
+    const multibyte = sanitizeFilename(`${'文'.repeat(100)}.txt`);
+    expect(multibyte).toBe(`${'文'.repeat(78)}.txt`);
+    expect(Buffer.byteLength(multibyte)).toBe(238);
+
+    // 四字节的 emoji（代理对）同样完整保留
+    const emoji = sanitizeFilename('😀'.repeat(100));
+    expect(emoji).toBe('😀'.repeat(60));
+    expect(emoji).not.toContain('\ufffd');
+  });
+
+  it('drops long extensions and does not leave trailing dots or spaces after truncation', () => {
+    expect(sanitizeFilename(`${'a'.repeat(250)}.${'b'.repeat(40)}`)).toBe('a'.repeat(240));
+    expect(sanitizeFilename(`${'a'.repeat(238)} .${'b'.repeat(40)}`)).toBe('a'.repeat(238));
+    expect(sanitizeFilename(`${'a'.repeat(235)} ${'b'.repeat(10)}.txt`)).toBe(`${'a'.repeat(235)}.txt`);
+  });
+});
+
+describe('sanitizeFolder', () => {
+  it('removes traversal segments and empty segments', () => {
+    expect(sanitizeFolder('a/../b//c')).toBe('a/b/c');
+    expect(sanitizeFolder('..\\..\\windows')).toBe('windows');
+    expect(sanitizeFolder('/./')).toBe('');
+    expect(sanitizeFolder('.git/hooks')).toBe('git/hooks');
+  });
+
+  it('rejects folders nested more than 16 levels', () => {
+    expect(sanitizeFolder(Array(16).fill('d').join('/'))).toBe(Array(16).fill('d').join('/'));
+    expect(sanitizeFolder(Array(17).fill('d').join('/'))).toBeNull();
+  });
+});
+
+describe('sanitizeUploadPath', () => {
+  it('sanitizes the folder and the file name together', () => {
+    expect(sanitizeUploadPath('docs/../aux/report.txt ')).toBe('docs/_aux/report.txt');
+    expect(sanitizeUploadPath('a\\b\\c.txt')).toBe('a/b/c.txt');
+    expect(sanitizeUploadPath('plain.txt')).toBe('plain.txt');
+  });
+
+  it('rejects paths without a usable file name or nested too deeply', () => {
+    expect(sanitizeUploadPath('docs/..')).toBeNull();
+    expect(sanitizeUploadPath('docs/')).toBeNull();
+    expect(sanitizeUploadPath(`${Array(17).fill('d').join('/')}/file.txt`)).toBeNull();
+  });
+});
@@ -0,0 +1,80 @@
+import { extname } from 'path';
+
+// 大多数文件系统限制单个文件名不超过 255 字节，预留重名序号（_1）和 .gz 后缀的空间
+const MAX_NAME_BYTES = 240;
+// 上传子目录的最大层级
+const MAX_FOLDER_DEPTH = 16;
+
+// Windows 保留的设备名，带扩展名时同样无法创建（如 con.txt）
+const RESERVED_NAMES = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])(\..*)?$/i;
+
+// 控制字符以及 Windows 文件名中不允许的字符
+const UNSAFE_CHARACTERS = /[\u0000-\u001f\u007f<>:"/\\|?*]/g;
+
+// 按 UTF-8 字节数截断，不拆开多字节字符
+function truncateBytes(value: string, maxBytes: number): string {
+  let result = '';
+  let bytes = 0;
+  for (const char of value) {
+    const size = Buffer.byteLength(char);
+    if (bytes + size > maxBytes) break;
+    result += char;
+    bytes += size;
+  }
+  return result;
+}
+
+// 清理单个路径片段；无法得到有效名称时返回空字符串
+function sanitizeSegment(value: string): string {
+  let name = value
+    .normalize('NFC')
+    .replace(UNSAFE_CHARACTERS, '_')
+    // Unicode 中的方向控制和零宽字符可用于伪装扩展名
+    .replace(/[\u200b-\u200f\u202a-\u202e\u2066-\u2069\ufeff]/g, '')
+    .trim()
+    // 开头的点会隐藏文件（同时排除 . 和 ..），结尾的点和空格在 Windows 上会被丢弃
+    .replace(/^\.+/, '')
+    .replace(/[. ]+$/, '');
+
+  if (RESERVED_NAMES.test(name)) {
+    name = `_${name}`;
+  }
+
+  if (Buffer.byteLength(name) > MAX_NAME_BYTES) {
+    // 尽量保留扩展名
+    const ext = extname(name);
+    const keepExt = ext.length > 0 && Buffer.byteLength(ext) <= 32;
+    name = keepExt
+      ? truncateBytes(name.slice(0, -ext.length), MAX_NAME_BYTES - Buffer.byteLength(ext)).replace(/[. ]+$/, '') + ext
+      : truncateBytes(name, MAX_NAME_BYTES).replace(/[. ]+$/, '');
+  }
+
+  return name;
+}
+
+// 客户端提供的文件名只保留最后一级，避免 ../../x 或 C:\x 这样的路径
+export function sanitizeFilename(originalName: string): string {
+  const base = originalName.split(/[/\\]/).pop() || '';
+  return sanitizeSegment(base) || 'unnamed';
+}
+
+// 清理上传子目录，例如 "a/../b//c" -> "a/b/c"；层级过深时返回 null
+export function sanitizeFolder(folder: string): string | null {
+  const segments = folder
+    .split(/[/\\]/)
+    .map(sanitizeSegment)
+    .filter(segment => segment !== '');
+
+  return segments.length <= MAX_FOLDER_DEPTH ? segments.join('/') : null;
+}
+
+// 清理相对上传目录的文件路径（子目录 + 文件名）
+export function sanitizeUploadPath(relativePath: string): string | null {
+  const segments = relativePath.split(/[/\\]/);
+  const filename = segments.pop() || '';
+  const folder = sanitizeFolder(segments.join('/'));
+  if (folder === null || sanitizeSegment(filename) === '') {
+    return null;
+  }
+  return folder ? `${folder}/${sanitizeFilename(filename)}` : sanitizeFilename(filename);
+}
@@ -0,0 +1,61 @@
+import { globToRegExp, isGlob, matchAnyGlob, matchGlob } from './glob';
+
+describe('globToRegExp', () => {
+  it('matches * within a single segment and ** across segments', () => {
+    expect(globToRegExp('assets/*.js').test('assets/app.js')).toBe(true);
+    expect(globToRegExp('assets/*.js').test('assets/vendor/app.js')).toBe(false);
+    expect(globToRegExp('assets/**').test('assets/vendor/app.js')).toBe(true);
+    expect(globToRegExp('assets/**/*.js').test('assets/app.js')).toBe(true);
+    expect(globToRegExp('assets/**/*.js').test('assets/a/b/app.js')).toBe(true);
+    expect(globToRegExp('assets/**/*.js').test('assetsapp.js')).toBe(false);
+  });
+
+  it('supports ?, braces and character classes', () => {
+    expect(globToRegExp('v?.txt').test('v1.txt')).toBe(true);
+    expect(globToRegExp('v?.txt').test('v/.txt')).toBe(false);
+    expect(globToRegExp('*.{js,css}').test('app.css')).toBe(true);
+    expect(globToRegExp('*.{js,css}').test('app.html')).toBe(false);
+    expect(globToRegExp('a,b').test('a,b')).toBe(true);
+    expect(globToRegExp('file[0-9].txt').test('file7.txt')).toBe(true);
+    expect(globToRegExp('file[!0-9].txt').test('file7.txt')).toBe(false);
+    expect(globToRegExp('file[!0-9].txt').test('filex.txt')).toBe(true);
+    expect(globToRegExp('file[.txt').test('file[.txt')).toBe(true);
+  });
+
+  it('escapes regular expression characters', () => {
+    expect(globToRegExp('a.b+(c)$').test('a.b+(c)$')).toBe(true);
+    expect(globToRegExp('a.b').test('axb')).toBe(false);
+  });
+});
+
+describe('matchGlob', () => {
+  it('matches patterns without a slash against the file name in any directory', () => {
+    expect(matchGlob('/index.html', '*.html')).toBe(true);
+    expect(matchGlob('/docs/guide/intro.html', '*.html')).toBe(true);
+    expect(matchGlob('/docs/html/readme.md', '*.html')).toBe(false);
+  });
+
+  it('matches patterns with a slash against the whole path, ignoring leading slashes', () => {
+    expect(matchGlob('/static/app.js', '/static/*.js')).toBe(true);
+    expect(matchGlob('/static/app.js', 'static/*.js')).toBe(true);
+    expect(matchGlob('/other/static/app.js', '/static/*.js')).toBe(false);
+    expect(matchGlob('/uploads/a/b.png', '/uploads/**')).toBe(true);
+    expect(matchGlob('/api/files', '/api/**')).toBe(true);
+  });
+
+  it('matches any of several patterns', () => {
+    expect(matchAnyGlob('/a.css', ['*.js', '*.css'])).toBe(true);
+    expect(matchAnyGlob('/a.html', ['*.js', '*.css'])).toBe(false);
+    expect(matchAnyGlob('/a.html', [])).toBe(false);
+  });
+});
+
+describe('isGlob', () => {
+  it('detects wildcards, braces and character classes', () => {
+    expect(isGlob('/api/**')).toBe(true);
+    expect(isGlob('/file?.txt')).toBe(true);
+    expect(isGlob('/{a,b}')).toBe(true);
+    expect(isGlob('/[ab]')).toBe(true);
+    expect(isGlob('/api')).toBe(false);
+  });
+});
@@ -0,0 +1,95 @@
+const globCache = new Map<string, RegExp>();
+
+function escapeRegExp(char: string): string {
+  return /[.+^${}()|[\]\\\/]/.test(char) ? `\\${char}` : char;
+}
+
+// 将 glob 转换为正则表达式，支持 **、*、?、{a,b} 和 [abc]
+export function globToRegExp(pattern: string): RegExp {
+  const cached = globCache.get(pattern);
+  if (cached) {
+    return cached;
+  }
+
+  let source = '';
+  let inGroup = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    switch (char) {
+      case '*':
+        if (pattern[i + 1] === '*') {
+          // **/ 匹配零个或多个目录，单独的 ** 匹配任意字符
+          if (pattern[i + 2] === '/') {
+            source += '(?:.*/)?';
+            i += 2;
+          } else {
+            source += '.*';
+            i += 1;
+          }
+        } else {
+          source += '[^/]*';
+        }
+        break;
+
+      case '?':
+        source += '[^/]';
+        break;
+
+      case '{':
+        inGroup = true;
+        source += '(?:';
+        break;
+
+      case '}':
+        inGroup = false;
+        source += ')';
+        break;
+
+      case ',':
+        source += inGroup ? '|' : ',';
+        break;
+
+      case '[': {
+        const end = pattern.indexOf(']', i + 1);
+        if (end === -1) {
+          source += '\\[';
+        } else {
+          const body = pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+          source += `[${body}]`;
+          i = end;
+        }
+        break;
+      }
+
+      default:
+        source += escapeRegExp(char);
+    }
+  }
+
+  const regex = new RegExp(`^${source}$`);
+  globCache.set(pattern, regex);
+  return regex;
+}
+
+// 含通配符或花括号的模式按 glob 处理，否则视为普通路径
+export function isGlob(pattern: string): boolean {
+  return /[*?{[]/.test(pattern);
+}
+
+// 不含 / 的模式（如 *.html）匹配任意目录下的文件名，其余模式匹配完整路径
+export function matchGlob(pathname: string, pattern: string): boolean {
+  const normalizedPath = pathname.replace(/^\/+/, '');
+
+  if (!pattern.includes('/')) {
+    const basename = normalizedPath.slice(normalizedPath.lastIndexOf('/') + 1);
+    return globToRegExp(pattern).test(basename);
+  }
+
+  return globToRegExp(pattern.replace(/^\/+/, '')).test(normalizedPath);
+}
+
+export function matchAnyGlob(pathname: string, patterns: string[]): boolean {
+  return patterns.some(pattern => matchGlob(pathname, pattern));
+}
@@ -0,0 +1,68 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { Socket } from 'net';
+import { applyHeaders, DEFAULT_SECURITY_HEADERS, HEADER_PRESETS, resolveHeaders } from './headers';
+import { HeaderRule, HeadersConfig } from '../types';
+
+function config(overrides: Partial<HeadersConfig>): HeadersConfig {
+  return { presets: [], global: {}, rules: [], ...overrides };
+}
+
+function resolve(pathname: string, overrides: Partial<HeadersConfig> = {}): Record<string, string | null> {
+  return Object.fromEntries(resolveHeaders(pathname, config(overrides)));
+}
+
+describe('resolveHeaders', () => {
+  it('sends the default security headers', () => {
+    expect(resolve('/index.html')).toEqual(DEFAULT_SECURITY_HEADERS);
+  });
+
+  it('adds the cross-origin isolation preset', () => {
+    expect(resolve('/index.html', { presets: ['cross-origin-isolation'] })).toEqual({
+      ...DEFAULT_SECURITY_HEADERS,
+      ...HEADER_PRESETS['cross-origin-isolation']
+    });
+  });
+
+  it('applies only the rules whose glob or regex matches', () => {
+    const rules: HeaderRule[] = [
+      { glob: '*.wasm', headers: { 'Content-Type': 'application/wasm' } },
+      { glob: '/assets/**', headers: { 'Cache-Tag': 'assets' } },
+      { regex: '\\.map$', headers: { 'X-Robots-Tag': 'noindex' } }
+    ];
+    expect(resolve('/assets/app.wasm', { rules })).toMatchObject({ 'Content-Type': 'application/wasm', 'Cache-Tag': 'assets' });
+    expect(resolve('/assets/app.wasm', { rules })).not.toHaveProperty('X-Robots-Tag');
+    expect(resolve('/app.js.map', { rules })).toMatchObject({ 'X-Robots-Tag': 'noindex' });
+    expect(resolve('/app.js', { rules })).toEqual(DEFAULT_SECURITY_HEADERS);
+  });
+
+  it('lets presets override defaults, global override presets and later rules override earlier ones', () => {
+    const headers = resolve('/embed/widget.html', {
+      presets: ['cross-origin-isolation'],
+      global: { 'x-frame-options': 'SAMEORIGIN', 'Cross-Origin-Embedder-Policy': 'credentialless' },
+      rules: [
+        { glob: '/embed/**', headers: { 'X-Frame-Options': null, 'Cross-Origin-Resource-Policy': 'cross-origin' } },
+        { glob: '*.html', headers: { 'cross-origin-resource-policy': 'same-site' } }
+      ]
+    });
+
+    expect(headers).toEqual({
+      'X-Content-Type-Options': 'nosniff',
+      'X-XSS-Protection': '1; mode=block',
+      'X-Frame-Options': null,
+      'Cross-Origin-Opener-Policy': 'same-origin',
+      'Cross-Origin-Embedder-Policy': 'credentialless',
+      'cross-origin-resource-policy': 'same-site'
+    });
+  });
+});
+
+describe('applyHeaders', () => {
+  it('sets headers and removes those whose value is null', () => {
+    const res = new ServerResponse(new IncomingMessage(new Socket()));
+    res.setHeader('X-Powered-By', 'test');
+
+    applyHeaders(res, [['X-Frame-Options', 'DENY'], ['X-Powered-By', null]]);
+    expect(res.getHeader('x-frame-options')).toBe('DENY');
+    expect(res.hasHeader('x-powered-by')).toBe(false);
+  });
+});
@@ -0,0 +1,54 @@
+import { ServerResponse } from 'http';
+import { HeaderPreset, HeaderValues, HeadersConfig } from '../types';
+import { matchesRule } from './cache-control';
+
+export const DEFAULT_SECURITY_HEADERS: HeaderValues = {
+  'X-Content-Type-Options': 'nosniff',
+  'X-Frame-Options': 'DENY',
+  'X-XSS-Protection': '1; mode=block'
+};
+
+export const HEADER_PRESETS: Record<HeaderPreset, HeaderValues> = {
+  // 跨源隔离，页面中才能使用 SharedArrayBuffer
+  'cross-origin-isolation': {
+    'Cross-Origin-Opener-Policy': 'same-origin',
+    'Cross-Origin-Embedder-Policy': 'require-corp',
+    'Cross-Origin-Resource-Policy': 'same-origin'
+  }
+};
+
+// 头部名称不区分大小写，后面的设置覆盖前面的同名头部
+function mergeHeaders(target: Map<string, [string, string | null]>, values: HeaderValues): void {
+  for (const [name, value] of Object.entries(values)) {
+    target.set(name.toLowerCase(), [name, value]);
+  }
+}
+
+// 依次合并默认安全头部、预设、全局头部和所有命中的路径规则
+export function resolveHeaders(pathname: string, config: HeadersConfig): Array<[string, string | null]> {
+  const headers = new Map<string, [string, string | null]>();
+
+  mergeHeaders(headers, DEFAULT_SECURITY_HEADERS);
+  for (const preset of config.presets) {
+    mergeHeaders(headers, HEADER_PRESETS[preset]);
+  }
+  mergeHeaders(headers, config.global);
+
+  for (const rule of config.rules) {
+    if (matchesRule(pathname, rule)) {
+      mergeHeaders(headers, rule.headers);
+    }
+  }
+
+  return Array.from(headers.values());
+}
+
+export function applyHeaders(res: ServerResponse, headers: Array<[string, string | null]>): void {
+  for (const [name, value] of headers) {
+    if (value === null) {
+      res.removeHeader(name);
+    } else {
+      res.setHeader(name, value);
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import { IncomingMessage, ServerResponse } from 'http';
+
+// JSON 请求体上限，API 只接收小型的控制类请求体
+const MAX_JSON_BODY = 64 * 1024;
+
+export function sendJson(
+  res: ServerResponse,
+  statusCode: number,
+  body: unknown,
+  headers: Record<string, string | number> = {}
+): void {
+  const payload = JSON.stringify(body);
+  res.writeHead(statusCode, {
+    ...headers,
+    'Content-Type': 'application/json; charset=utf-8',
+    'Content-Length': Buffer.byteLength(payload)
+  });
+  res.end(payload);
+}
+
+// API 错误统一使用 { success: false, error: <错误码>, message: <说明> }
+export function sendJsonError(
+  res: ServerResponse,
+  statusCode: number,
+  error: string,
+  message: string,
+  headers: Record<string, string | number> = {}
+): void {
+  sendJson(res, statusCode, { success: false, error, message }, headers);
+}
+
+export type JsonBodyResult =
+  | { ok: true; value: unknown }
+  | { ok: false; statusCode: 400 | 413; message: string };
+
+// 读取并解析 JSON 请求体；空请求体视为 {}
+export function readJsonBody(req: IncomingMessage, limit = MAX_JSON_BODY): Promise<JsonBodyResult> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      // 超出上限后继续读完请求体但不再缓存，以便正常返回 413
+      if (size <= limit) {
+        chunks.push(chunk);
+      }
+    });
+
+    req.on('end', () => {
+      if (size > limit) {
+        resolve({ ok: false, statusCode: 413, message: `Request body exceeds ${limit} bytes` });
+        return;
+      }
+      const text = Buffer.concat(chunks).toString('utf-8');
+      try {
+        resolve({ ok: true, value: text.trim() === '' ? {} : JSON.parse(text) });
+      } catch {
+        resolve({ ok: false, statusCode: 400, message: 'Request body is not valid JSON' });
+      }
+    });
+
+    req.on('error', reject);
+  });
+}
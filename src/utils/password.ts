@@ -0,0 +1,66 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+
+// scrypt 哈希使用 PHC 格式：$scrypt$ln=14,r=8,p=1$<salt>$<hash>（base64，无填充）
+const SCRYPT_PREFIX = '$scrypt$';
+const SCRYPT_DEFAULTS = { ln: 14, r: 8, p: 1 };
+const SCRYPT_KEY_LENGTH = 32;
+const BCRYPT_PATTERN = /^\$2[aby]\$\d{2}\$[./A-Za-z0-9]{53}$/;
+const SCRYPT_PATTERN = /^\$scrypt\$ln=(\d+),r=(\d+),p=(\d+)\$([A-Za-z0-9+/]+)\$([A-Za-z0-9+/]+)$/;
+
+function scrypt(password: string, salt: Buffer, keyLength: number, options: crypto.ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, keyLength, options, (error, derivedKey) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(derivedKey);
+      }
+    });
+  });
+}
+
+function toBase64(buffer: Buffer): string {
+  return buffer.toString('base64').replace(/=+$/, '');
+}
+
+export function isSupportedHash(hash: string): boolean {
+  return BCRYPT_PATTERN.test(hash) || SCRYPT_PATTERN.test(hash);
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const { ln, r, p } = SCRYPT_DEFAULTS;
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(password, salt, SCRYPT_KEY_LENGTH, { N: 2 ** ln, r, p, maxmem: 256 * 2 ** ln * r });
+  return `${SCRYPT_PREFIX}ln=${ln},r=${r},p=${p}$${toBase64(salt)}$${toBase64(hash)}`;
+}
+
+// 支持 bcrypt（$2a$/$2b$/$2y$）和 scrypt 哈希
+export async function verifyPassword(password: string, hash: string): Promise<boolean> {
+  if (BCRYPT_PATTERN.test(hash)) {
+    return bcrypt.compare(password, hash);
+  }
+
+  const match = SCRYPT_PATTERN.exec(hash);
+  if (!match) {
+    return false;
+  }
+
+  const [, ln, r, p, salt, expected] = match;
+  const expectedBuffer = Buffer.from(expected, 'base64');
+  const N = 2 ** Number(ln);
+  const actual = await scrypt(password, Buffer.from(salt, 'base64'), expectedBuffer.length, {
+    N,
+    r: Number(r),
+    p: Number(p),
+    maxmem: 256 * N * Number(r)
+  });
+  return crypto.timingSafeEqual(actual, expectedBuffer);
+}
+
+// 定长摘要后比较，避免长度和内容差异泄露时间信息
+export function safeEqual(a: string, b: string): boolean {
+  const digestA = crypto.createHash('sha256').update(a).digest();
+  const digestB = crypto.createHash('sha256').update(b).digest();
+  return crypto.timingSafeEqual(digestA, digestB);
+}
@@ -0,0 +1,11 @@
+import path from 'path';
+
+// 安全检查：确保路径在根目录内，越界时返回 null
+export function resolveWithin(rootDir: string, filePath: string): string | null {
+  const fullPath = path.join(rootDir, filePath);
+  const relativePath = path.relative(rootDir, fullPath);
+  if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+    return null;
+  }
+  return fullPath;
+}
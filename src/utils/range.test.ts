@@ -0,0 +1,79 @@
+import {
+  formatContentRange,
+  multipartHeader,
+  multipartTrailer,
+  parseRange,
+  RANGE_MALFORMED,
+  RANGE_UNSATISFIABLE
+} from './range';
+
+describe('parseRange', () => {
+  it('parses a single closed range', () => {
+    expect(parseRange(1000, 'bytes=0-499')).toEqual([{ start: 0, end: 499 }]);
+  });
+
+  it('clamps an open-ended range to the file size', () => {
+    expect(parseRange(1000, 'bytes=900-')).toEqual([{ start: 900, end: 999 }]);
+    expect(parseRange(1000, 'bytes=900-5000')).toEqual([{ start: 900, end: 999 }]);
+  });
+
+  it('resolves suffix ranges from the end of the file', () => {
+    expect(parseRange(1000, 'bytes=-100')).toEqual([{ start: 900, end: 999 }]);
+    expect(parseRange(1000, 'bytes=-5000')).toEqual([{ start: 0, end: 999 }]);
+  });
+
+  it('accepts whitespace and a case-insensitive unit', () => {
+    expect(parseRange(100, 'Bytes = 0 - 9 , 20-29')).toEqual([
+      { start: 0, end: 9 },
+      { start: 20, end: 29 }
+    ]);
+  });
+
+  it('merges overlapping and adjacent ranges but keeps request order', () => {
+    expect(parseRange(1000, 'bytes=500-599,0-99,100-199,550-700')).toEqual([
+      { start: 500, end: 700 },
+      { start: 0, end: 199 }
+    ]);
+  });
+
+  it('drops ranges that start beyond the file and keeps the rest', () => {
+    expect(parseRange(100, 'bytes=0-9,200-300')).toEqual([{ start: 0, end: 9 }]);
+  });
+
+  it('reports unsatisfiable ranges', () => {
+    expect(parseRange(100, 'bytes=100-')).toBe(RANGE_UNSATISFIABLE);
+    expect(parseRange(100, 'bytes=-0')).toBe(RANGE_UNSATISFIABLE);
+    expect(parseRange(0, 'bytes=0-0')).toBe(RANGE_UNSATISFIABLE);
+  });
+
+  it.each([
+    'items=0-1',
+    'bytes',
+    'bytes=',
+    'bytes=-',
+    'bytes=abc',
+    'bytes=5-1',
+    'bytes=1-2-3',
+    'bytes=0x10-20'
+  ])('treats %p as malformed', (header) => {
+    expect(parseRange(100, header)).toBe(RANGE_MALFORMED);
+  });
+
+  it('ignores requests with too many ranges', () => {
+    const specs = Array.from({ length: 51 }, (_, i) => `${i * 2}-${i * 2}`).join(',');
+    expect(parseRange(1000, `bytes=${specs}`)).toBe(RANGE_MALFORMED);
+  });
+});
+
+describe('multipart/byteranges helpers', () => {
+  it('formats Content-Range', () => {
+    expect(formatContentRange({ start: 10, end: 19 }, 100)).toBe('bytes 10-19/100');
+  });
+
+  it('builds part headers and the closing boundary', () => {
+    expect(multipartHeader('b0undary', 'text/plain', { start: 0, end: 4 }, 10)).toBe(
+      '--b0undary\r\nContent-Type: text/plain\r\nContent-Range: bytes 0-4/10\r\n\r\n'
+    );
+    expect(multipartTrailer('b0undary')).toBe('--b0undary--\r\n');
+  });
+});
@@ -0,0 +1,105 @@
+import crypto from 'crypto';
+
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+// 范围无法满足（416）
+export const RANGE_UNSATISFIABLE = -1;
+// Range 头部格式错误，应忽略并返回完整内容
+export const RANGE_MALFORMED = -2;
+
+// 超过该数量的范围请求视为滥用，直接返回完整内容
+const MAX_RANGES = 50;
+
+export function parseRange(size: number, header: string): ByteRange[] | number {
+  const index = header.indexOf('=');
+  if (index === -1 || header.slice(0, index).trim().toLowerCase() !== 'bytes') {
+    return RANGE_MALFORMED;
+  }
+
+  const specs = header.slice(index + 1).split(',');
+  if (specs.length > MAX_RANGES) {
+    return RANGE_MALFORMED;
+  }
+
+  const ranges: ByteRange[] = [];
+
+  for (const spec of specs) {
+    const match = /^\s*(\d*)\s*-\s*(\d*)\s*$/.exec(spec);
+    if (!match || (match[1] === '' && match[2] === '')) {
+      return RANGE_MALFORMED;
+    }
+
+    let start: number;
+    let end: number;
+
+    if (match[1] === '') {
+      // 后缀范围：bytes=-500 表示最后 500 字节
+      const suffixLength = parseInt(match[2], 10);
+      if (suffixLength === 0) continue;
+      start = Math.max(size - suffixLength, 0);
+      end = size - 1;
+    } else {
+      start = parseInt(match[1], 10);
+      end = match[2] === '' ? Infinity : parseInt(match[2], 10);
+      if (end < start) {
+        return RANGE_MALFORMED;
+      }
+      end = Math.min(end, size - 1);
+    }
+
+    // 起始位置超出文件大小的范围不可满足
+    if (start >= size) continue;
+
+    ranges.push({ start, end });
+  }
+
+  if (ranges.length === 0) {
+    return RANGE_UNSATISFIABLE;
+  }
+
+  return combineRanges(ranges);
+}
+
+// 合并重叠或相邻的范围，保持请求顺序
+function combineRanges(ranges: ByteRange[]): ByteRange[] {
+  const ordered = ranges
+    .map((range, index) => ({ ...range, index }))
+    .sort((a, b) => a.start - b.start);
+
+  const combined: Array<ByteRange & { index: number }> = [];
+  for (const range of ordered) {
+    const last = combined[combined.length - 1];
+    if (last && range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+      last.index = Math.min(last.index, range.index);
+    } else {
+      combined.push({ ...range });
+    }
+  }
+
+  return combined
+    .sort((a, b) => a.index - b.index)
+    .map(({ start, end }) => ({ start, end }));
+}
+
+export function formatContentRange(range: ByteRange, size: number): string {
+  return `bytes ${range.start}-${range.end}/${size}`;
+}
+
+export function generateBoundary(): string {
+  return crypto.randomBytes(12).toString('hex');
+}
+
+// 构造 multipart/byteranges 中每个部分的头部
+export function multipartHeader(boundary: string, mimeType: string, range: ByteRange, size: number): string {
+  return `--${boundary}\r\n` +
+    `Content-Type: ${mimeType}\r\n` +
+    `Content-Range: ${formatContentRange(range, size)}\r\n\r\n`;
+}
+
+export function multipartTrailer(boundary: string): string {
+  return `--${boundary}--\r\n`;
+}
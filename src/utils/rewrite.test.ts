@@ -0,0 +1,93 @@
+import { applyRewriteRules, cleanUrlRedirect, localRedirectPath, normalizeTrailingSlash, resolveRewrite } from './rewrite';
+import { RewriteRule, TrailingSlashMode } from '../types';
+
+function resolve(pathname: string, options: { trailingSlash?: TrailingSlashMode; cleanUrls?: boolean; rewrites?: RewriteRule[] } = {}) {
+  return resolveRewrite(pathname, '', {
+    rewrites: options.rewrites || [],
+    trailingSlash: options.trailingSlash || 'ignore',
+    cleanUrls: options.cleanUrls || false,
+    indexPath: 'index.html'
+  });
+}
+
+describe('localRedirectPath', () => {
+  it('collapses leading slashes and backslashes to a single slash', () => {
+    expect(localRedirectPath('//evil.com')).toBe('/evil.com');
+    expect(localRedirectPath('/\\evil.com/')).toBe('/evil.com/');
+    expect(localRedirectPath('\\\\evil.com')).toBe('/evil.com');
+    expect(localRedirectPath('/docs//a/')).toBe('/docs//a/');
+    expect(localRedirectPath('/')).toBe('/');
+  });
+});
+
+describe('normalizeTrailingSlash', () => {
+  it('adds or removes the trailing slash', () => {
+    expect(normalizeTrailingSlash('/about', 'always')).toBe('/about/');
+    expect(normalizeTrailingSlash('/about/', 'always')).toBeNull();
+    expect(normalizeTrailingSlash('/style.css', 'always')).toBeNull();
+    expect(normalizeTrailingSlash('/about/', 'never')).toBe('/about');
+    expect(normalizeTrailingSlash('/', 'never')).toBeNull();
+    expect(normalizeTrailingSlash('/about/', 'ignore')).toBeNull();
+  });
+
+  it('never produces a protocol-relative Location', () => {
+    expect(normalizeTrailingSlash('//evil.com/', 'never')).toBe('/evil.com');
+    expect(normalizeTrailingSlash('//evil%2Ecom', 'always')).toBe('/evil%2Ecom/');
+    expect(normalizeTrailingSlash('/\\evil', 'always')).toBe('/evil/');
+    expect(normalizeTrailingSlash('///', 'never')).toBe('/');
+  });
+});
+
+describe('cleanUrlRedirect', () => {
+  it('removes .html and index.html', () => {
+    expect(cleanUrlRedirect('/about.html', 'index.html', 'ignore')).toBe('/about');
+    expect(cleanUrlRedirect('/about.html', 'index.html', 'always')).toBe('/about/');
+    expect(cleanUrlRedirect('/docs/index.html', 'index.html', 'ignore')).toBe('/docs/');
+    expect(cleanUrlRedirect('/docs/index.html', 'index.html', 'never')).toBe('/docs');
+    expect(cleanUrlRedirect('/index.html', 'index.html', 'never')).toBe('/');
+    expect(cleanUrlRedirect('/style.css', 'index.html', 'ignore')).toBeNull();
+  });
+
+  it('never produces a protocol-relative Location', () => {
+    expect(cleanUrlRedirect('//evil.com/x.html', 'index.html', 'ignore')).toBe('/evil.com/x');
+    expect(cleanUrlRedirect('//evil.com/index.html', 'index.html', 'ignore')).toBe('/evil.com/');
+    expect(cleanUrlRedirect('//evil.com/index.html', 'index.html', 'never')).toBe('/evil.com');
+    expect(cleanUrlRedirect('//index.html', 'index.html', 'ignore')).toBe('/');
+  });
+});
+
+describe('applyRewriteRules', () => {
+  const rules: RewriteRule[] = [
+    { source: '^/old/(.*)$', destination: '/new/$1', status: 301 },
+    { source: '^/go/(.*)$', destination: '/$1', status: 302 },
+    { source: '^/cdn/(.*)$', destination: 'https://cdn.example.com/$1', status: 302 },
+    { source: '^/app/(?<page>\\w+)$', destination: '/index.html?page=$<page>' }
+  ];
+
+  it('substitutes capture groups and merges the query string', () => {
+    expect(applyRewriteRules('/old/a/b', '?x=1', rules)).toMatchObject({ type: 'redirect', url: '/new/a/b?x=1', status: 301 });
+    expect(applyRewriteRules('/app/home', '?x=1', rules)).toMatchObject({ type: 'rewrite', url: '/index.html?page=home&x=1' });
+    expect(applyRewriteRules('/cdn/lib.js', '', rules)).toMatchObject({ url: 'https://cdn.example.com/lib.js' });
+    expect(applyRewriteRules('/other', '', rules)).toBeNull();
+  });
+
+  it('keeps redirects to local paths on this host', () => {
+    expect(applyRewriteRules('/go//evil.com', '', rules)).toMatchObject({ type: 'redirect', url: '/evil.com' });
+    expect(applyRewriteRules('/go/\\evil.com', '', rules)).toMatchObject({ type: 'redirect', url: '/evil.com' });
+  });
+});
+
+describe('resolveRewrite', () => {
+  it('rejects the open redirect probes', () => {
+    expect(resolve('//evil.com/', { trailingSlash: 'never' })).toMatchObject({ type: 'redirect', url: '/evil.com' });
+    expect(resolve('//evil.com/x.html', { cleanUrls: true })).toMatchObject({ type: 'redirect', url: '/evil.com/x' });
+    expect(resolve('//evil.com/index.html', { cleanUrls: true })).toMatchObject({ type: 'redirect', url: '/evil.com/' });
+    expect(resolve('//evil%2Ecom', { trailingSlash: 'always' })).toMatchObject({ type: 'redirect', url: '/evil%2Ecom/' });
+  });
+
+  it('applies trailing slash handling before clean URLs and custom rules', () => {
+    expect(resolve('/about.html/', { trailingSlash: 'never', cleanUrls: true })).toMatchObject({ url: '/about.html' });
+    expect(resolve('/about.html', { trailingSlash: 'never', cleanUrls: true })).toMatchObject({ url: '/about' });
+    expect(resolve('/about')).toBeNull();
+  });
+});
@@ -0,0 +1,111 @@
+import { RedirectStatus, RewriteRule, TrailingSlashMode } from '../types';
+
+export type RewriteResult =
+  | { type: 'rewrite'; url: string; rule: RewriteRule }
+  | { type: 'redirect'; url: string; status: RedirectStatus; rule: RewriteRule | null };
+
+const regexCache = new Map<string, RegExp>();
+
+function toRegExp(source: string): RegExp {
+  let regex = regexCache.get(source);
+  if (!regex) {
+    regex = new RegExp(source);
+    regexCache.set(source, regex);
+  }
+  return regex;
+}
+
+// 替换目标中的 $1、$<name> 捕获组引用，未匹配的分组替换为空字符串
+function substitute(template: string, match: RegExpExecArray): string {
+  return template.replace(/\$(\d+)|\$<(\w+)>/g, (_, index: string | undefined, name: string | undefined) => {
+    const value = index !== undefined ? match[Number(index)] : match.groups?.[name as string];
+    return value ?? '';
+  });
+}
+
+// 目标自带查询参数时与原始查询参数合并
+function appendSearch(destination: string, search: string): string {
+  if (!search) {
+    return destination;
+  }
+  return destination.includes('?') ? `${destination}&${search.slice(1)}` : destination + search;
+}
+
+// 以 // 或 /\ 开头的 Location 会被浏览器当作协议相对 URL 跳转到其他主机（开放重定向），
+// 由请求路径生成重定向地址时合并开头的斜杠
+export function localRedirectPath(pathname: string): string {
+  return pathname.replace(/^[/\\]+/, '/');
+}
+
+// 最后一段带扩展名的路径视为文件
+function looksLikeFile(pathname: string): boolean {
+  const lastSegment = pathname.slice(pathname.lastIndexOf('/') + 1);
+  return lastSegment.includes('.');
+}
+
+// always：/about -> /about/；never：/about/ -> /about；文件路径和根路径不处理
+export function normalizeTrailingSlash(pathname: string, mode: TrailingSlashMode): string | null {
+  if (mode === 'always' && !pathname.endsWith('/') && !looksLikeFile(pathname)) {
+    return localRedirectPath(pathname + '/');
+  }
+  if (mode === 'never' && pathname.length > 1 && pathname.endsWith('/')) {
+    return localRedirectPath(pathname.replace(/\/+$/, '') || '/');
+  }
+  return null;
+}
+
+// 简洁 URL：/about.html -> /about，/docs/index.html -> /docs/
+export function cleanUrlRedirect(pathname: string, indexPath: string, mode: TrailingSlashMode): string | null {
+  if (!pathname.endsWith('.html')) {
+    return null;
+  }
+
+  const indexSuffix = '/' + indexPath;
+  if (pathname.endsWith(indexSuffix)) {
+    const directory = pathname.slice(0, -indexPath.length);
+    return localRedirectPath(mode === 'never' && directory.length > 1 ? directory.slice(0, -1) : directory);
+  }
+
+  const clean = pathname.slice(0, -'.html'.length);
+  return localRedirectPath(mode === 'always' ? clean + '/' : clean);
+}
+
+// 按顺序匹配重写/重定向规则，第一条命中的规则生效
+export function applyRewriteRules(pathname: string, search: string, rules: RewriteRule[]): RewriteResult | null {
+  for (const rule of rules) {
+    const match = toRegExp(rule.source).exec(pathname);
+    if (!match) {
+      continue;
+    }
+
+    const url = appendSearch(substitute(rule.destination, match), search);
+    if (rule.status === undefined) {
+      return { type: 'rewrite', url, rule };
+    }
+    // 目标为本站路径时，捕获组的内容同样不能使其变成协议相对 URL
+    const isLocal = /^\/(?![/\\])/.test(rule.destination);
+    return { type: 'redirect', url: isLocal ? localRedirectPath(url) : url, status: rule.status, rule };
+  }
+  return null;
+}
+
+// 依次处理尾部斜杠、简洁 URL 和自定义规则；返回 null 表示按原路径处理
+export function resolveRewrite(
+  pathname: string,
+  search: string,
+  options: { rewrites: RewriteRule[]; trailingSlash: TrailingSlashMode; cleanUrls: boolean; indexPath: string }
+): RewriteResult | null {
+  const normalized = normalizeTrailingSlash(pathname, options.trailingSlash);
+  if (normalized !== null) {
+    return { type: 'redirect', url: normalized + search, status: 301, rule: null };
+  }
+
+  if (options.cleanUrls) {
+    const clean = cleanUrlRedirect(pathname, options.indexPath, options.trailingSlash);
+    if (clean !== null) {
+      return { type: 'redirect', url: clean + search, status: 301, rule: null };
+    }
+  }
+
+  return applyRewriteRules(pathname, search, options.rewrites);
+}
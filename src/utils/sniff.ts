@@ -0,0 +1,117 @@
+import { closeSync, openSync, readSync } from 'fs';
+import { getMimeType } from './mime';
+
+// 识别文件类型需要读取的字节数（tar 的 ustar 标记位于 257 字节处）
+const SNIFF_LENGTH = 4096;
+
+interface Signature {
+  mime: string;
+  offset?: number;
+  bytes: Array<number | null>;
+}
+
+function ascii(text: string): number[] {
+  return Array.from(text, char => char.charCodeAt(0));
+}
+
+// null 表示任意字节
+const SIGNATURES: Signature[] = [
+  { mime: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mime: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { mime: 'image/gif', bytes: ascii('GIF87a') },
+  { mime: 'image/gif', bytes: ascii('GIF89a') },
+  { mime: 'image/webp', bytes: [...ascii('RIFF'), null, null, null, null, ...ascii('WEBP')] },
+  { mime: 'audio/wav', bytes: [...ascii('RIFF'), null, null, null, null, ...ascii('WAVE')] },
+  { mime: 'video/x-msvideo', bytes: [...ascii('RIFF'), null, null, null, null, ...ascii('AVI ')] },
+  { mime: 'image/avif', offset: 4, bytes: ascii('ftypavif') },
+  { mime: 'image/heic', offset: 4, bytes: ascii('ftypheic') },
+  { mime: 'video/quicktime', offset: 4, bytes: ascii('ftypqt  ') },
+  { mime: 'video/mp4', offset: 4, bytes: ascii('ftyp') },
+  { mime: 'image/tiff', bytes: [0x49, 0x49, 0x2a, 0x00] },
+  { mime: 'image/tiff', bytes: [0x4d, 0x4d, 0x00, 0x2a] },
+  { mime: 'image/x-icon', bytes: [0x00, 0x00, 0x01, 0x00] },
+  { mime: 'image/bmp', bytes: [...ascii('BM'), null, null, null, null, 0x00, 0x00, 0x00, 0x00] },
+  { mime: 'video/webm', bytes: [0x1a, 0x45, 0xdf, 0xa3] },
+  { mime: 'audio/ogg', bytes: ascii('OggS') },
+  { mime: 'audio/flac', bytes: ascii('fLaC') },
+  { mime: 'audio/mpeg', bytes: ascii('ID3') },
+  { mime: 'audio/mpeg', bytes: [0xff, 0xfb] },
+  { mime: 'audio/mpeg', bytes: [0xff, 0xf3] },
+  { mime: 'audio/mpeg', bytes: [0xff, 0xf2] },
+  { mime: 'application/pdf', bytes: ascii('%PDF-') },
+  { mime: 'application/zip', bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { mime: 'application/zip', bytes: [0x50, 0x4b, 0x05, 0x06] },
+  { mime: 'application/gzip', bytes: [0x1f, 0x8b] },
+  { mime: 'application/x-bzip2', bytes: ascii('BZh') },
+  { mime: 'application/x-xz', bytes: [0xfd, ...ascii('7zXZ'), 0x00] },
+  { mime: 'application/x-7z-compressed', bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c] },
+  { mime: 'application/vnd.rar', bytes: [...ascii('Rar!'), 0x1a, 0x07] },
+  { mime: 'application/zstd', bytes: [0x28, 0xb5, 0x2f, 0xfd] },
+  { mime: 'application/x-tar', offset: 257, bytes: ascii('ustar') },
+  { mime: 'application/wasm', bytes: [0x00, ...ascii('asm')] },
+  { mime: 'application/vnd.sqlite3', bytes: [...ascii('SQLite format 3'), 0x00] },
+  { mime: 'application/x-elf', bytes: [0x7f, ...ascii('ELF')] },
+  { mime: 'application/vnd.microsoft.portable-executable', bytes: ascii('MZ') },
+  { mime: 'font/woff', bytes: ascii('wOFF') },
+  { mime: 'font/woff2', bytes: ascii('wOF2') },
+  { mime: 'font/otf', bytes: ascii('OTTO') },
+  { mime: 'font/ttf', bytes: [0x00, 0x01, 0x00, 0x00, 0x00] }
+];
+
+function matchesSignature(header: Buffer, signature: Signature): boolean {
+  const offset = signature.offset || 0;
+  if (header.length < offset + signature.bytes.length) {
+    return false;
+  }
+  return signature.bytes.every((byte, index) => byte === null || header[offset + index] === byte);
+}
+
+// 不含 NUL 且是合法 UTF-8 时视为文本；截断的文件头末尾可能是不完整的多字节字符
+function looksLikeText(header: Buffer, truncated: boolean): boolean {
+  if (header.includes(0x00)) {
+    return false;
+  }
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(header, { stream: truncated });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// 文本内容无法从文件头区分 JSON、CSS 等格式，此时采用扩展名对应的文本类 MIME 类型
+function textMimeType(filename: string): string {
+  const byName = getMimeType(filename);
+  const isTextual = byName.startsWith('text/')
+    || /^application\/(json|javascript|xml|x-sh|ld\+json|manifest\+json)$/.test(byName)
+    || byName === 'image/svg+xml';
+  return isTextual ? byName : 'text/plain';
+}
+
+// 按文件头识别 MIME 类型；filename 只用于细分文本格式
+export function sniffMimeType(filePath: string, filename: string): string {
+  const fd = openSync(filePath, 'r');
+  let header: Buffer;
+  let truncated: boolean;
+
+  try {
+    const buffer = Buffer.alloc(SNIFF_LENGTH);
+    const bytesRead = readSync(fd, buffer, 0, SNIFF_LENGTH, 0);
+    header = buffer.subarray(0, bytesRead);
+    truncated = bytesRead === SNIFF_LENGTH;
+  } finally {
+    closeSync(fd);
+  }
+
+  if (header.length === 0) {
+    return 'application/x-empty';
+  }
+
+  const signature = SIGNATURES.find(candidate => matchesSignature(header, candidate));
+  if (signature) {
+    return signature.mime;
+  }
+
+  return looksLikeText(header, truncated) ? textMimeType(filename) : 'application/octet-stream';
+}
@@ -0,0 +1,29 @@
+import { IncomingMessage, ServerResponse } from 'http';
+
+// 心跳间隔，防止代理或浏览器因空闲断开连接
+export const HEARTBEAT_INTERVAL = 30000;
+
+// 开始 Server-Sent Events 响应（HTTP/2 禁止 Connection 等逐跳头部），retry 为浏览器断线重连的等待时间
+export function openEventStream(req: IncomingMessage, res: ServerResponse, retry: number = 1000): void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    ...(req.httpVersionMajor < 2 ? { 'Connection': 'keep-alive' } : {})
+  });
+  res.write(`retry: ${retry}\n\n`);
+}
+
+export function formatEvent(event: string, data: object): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+// 向一组连接发送注释行作为心跳，返回的定时器不会阻止进程退出
+export function startHeartbeat(clients: () => Iterable<ServerResponse>): NodeJS.Timeout {
+  const timer = setInterval(() => {
+    for (const client of clients()) {
+      client.write(': ping\n\n');
+    }
+  }, HEARTBEAT_INTERVAL);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,143 @@
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { Logger } from '../types';
+
+// 元数据文件以 . 开头，不会出现在文件列表和容量统计中
+const INDEX_FILE = '.index.json';
+const INDEX_VERSION = 1;
+
+const MAX_TAGS = 32;
+const MAX_TAG_LENGTH = 64;
+
+// 标签可以是逗号分隔的字符串或数组（标签本身不能包含逗号），去掉空白和重复项
+export function parseTags(value: string | string[] | undefined): string[] {
+  const values = (Array.isArray(value) ? value : [value || '']).flatMap(item => String(item).split(','));
+  const tags = values
+    .map(tag => tag.trim().slice(0, MAX_TAG_LENGTH))
+    .filter(tag => tag !== '');
+  return Array.from(new Set(tags)).slice(0, MAX_TAGS);
+}
+
+export interface UploadRecord {
+  // 相对上传目录的存储路径
+  filename: string;
+  // 客户端提供的原始文件名（清理前）
+  originalName: string;
+  size: number;
+  sha256: string;
+  // 按文件头识别出的 MIME 类型
+  mimeType: string;
+  uploaderIp: string | null;
+  tags: string[];
+  uploadedAt: string;
+  updatedAt: string;
+  // 开启版本历史时被覆盖的旧版本，按从新到旧排列
+  versions?: VersionRecord[];
+}
+
+export interface VersionRecord {
+  id: string;
+  originalName: string;
+  size: number;
+  sha256: string;
+  mimeType: string;
+  uploaderIp: string | null;
+  // 该版本上传的时间
+  uploadedAt: string;
+  // 该版本被新版本替换的时间
+  archivedAt: string;
+}
+
+interface IndexFile {
+  version: number;
+  files: Record<string, UploadRecord>;
+}
+
+// 上传文件的元数据索引，保存在 <uploadDir>/.index.json
+export class UploadIndex {
+  private indexPath: string;
+  private logger: Logger;
+  private records = new Map<string, UploadRecord>();
+
+  constructor(uploadDir: string, logger: Logger) {
+    this.indexPath = join(uploadDir, INDEX_FILE);
+    this.logger = logger;
+    this.load();
+  }
+
+  private load(): void {
+    if (!existsSync(this.indexPath)) {
+      return;
+    }
+
+    try {
+      const data = JSON.parse(readFileSync(this.indexPath, 'utf-8')) as IndexFile;
+      for (const record of Object.values(data.files || {})) {
+        this.records.set(record.filename, record);
+      }
+      this.logger.debug(`Loaded upload index with ${this.records.size} records`);
+    } catch (error) {
+      // 索引损坏时不影响文件本身，列表会退回到文件系统中的信息
+      this.logger.warn(`Failed to read upload index ${this.indexPath}:`, error as Error);
+    }
+  }
+
+  // 先写临时文件再重命名，避免进程中断时留下不完整的索引
+  private save(): void {
+    const data: IndexFile = {
+      version: INDEX_VERSION,
+      files: Object.fromEntries(this.records)
+    };
+    writeFileSync(`${this.indexPath}.tmp`, JSON.stringify(data, null, 2));
+    renameSync(`${this.indexPath}.tmp`, this.indexPath);
+  }
+
+  public get(filename: string): UploadRecord | undefined {
+    return this.records.get(filename);
+  }
+
+  public all(): UploadRecord[] {
+    return Array.from(this.records.values());
+  }
+
+  public findByHash(sha256: string): UploadRecord | undefined {
+    for (const record of this.records.values()) {
+      if (record.sha256 === sha256) {
+        return record;
+      }
+    }
+    return undefined;
+  }
+
+  public add(record: UploadRecord): void {
+    this.records.set(record.filename, record);
+    this.save();
+  }
+
+  public update(filename: string, changes: Partial<Pick<UploadRecord, 'tags' | 'versions'>>): UploadRecord | undefined {
+    const record = this.records.get(filename);
+    if (!record) {
+      return undefined;
+    }
+
+    Object.assign(record, changes, { updatedAt: new Date().toISOString() });
+    this.save();
+    return record;
+  }
+
+  public rename(from: string, to: string): void {
+    const record = this.records.get(from);
+    this.records.delete(to);
+    if (record) {
+      this.records.delete(from);
+      this.records.set(to, { ...record, filename: to, updatedAt: new Date().toISOString() });
+    }
+    this.save();
+  }
+
+  public remove(filename: string): void {
+    if (this.records.delete(filename)) {
+      this.save();
+    }
+  }
+}
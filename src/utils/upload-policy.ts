@@ -0,0 +1,128 @@
+import { readdirSync, statSync } from 'fs';
+import { join } from 'path';
+import { UploadErrorCode, UploadPolicyConfig } from '../types';
+import { VERSIONS_DIR } from './version-store';
+
+export interface UploadRejection {
+  error: UploadErrorCode;
+  message: string;
+}
+
+const REJECTION_STATUS: Record<UploadErrorCode, number> = {
+  file_too_large: 413,
+  request_too_large: 413,
+  too_many_files: 413,
+  extension_not_allowed: 415,
+  mime_type_not_allowed: 415,
+  quota_exceeded: 507,
+  invalid_path: 400,
+  invalid_archive: 400,
+  archive_too_large: 413,
+  unsupported_entry: 415,
+  extraction_not_allowed: 403,
+  upload_failed: 500
+};
+
+export function rejectionStatus(error: UploadErrorCode): number {
+  return REJECTION_STATUS[error];
+}
+
+function normalizeExtension(extension: string): string {
+  const lower = extension.trim().toLowerCase();
+  return lower.startsWith('.') ? lower : `.${lower}`;
+}
+
+// 支持 "image/*" 形式的通配
+export function matchesMimeType(mimeType: string, patterns: string[]): boolean {
+  return patterns.some(pattern => pattern.endsWith('/*')
+    ? mimeType.startsWith(pattern.slice(0, -1))
+    : mimeType === pattern);
+}
+
+export class UploadPolicy {
+  private config: UploadPolicyConfig;
+  private uploadDir: string;
+
+  constructor(config: UploadPolicyConfig, uploadDir: string) {
+    this.config = config;
+    this.uploadDir = uploadDir;
+  }
+
+  public get maxFileSize(): number {
+    return this.config.maxFileSize;
+  }
+
+  public get maxRequestSize(): number {
+    return this.config.maxRequestSize;
+  }
+
+  public get maxFiles(): number {
+    return this.config.maxFiles;
+  }
+
+  // 扩展名按后缀匹配，因此 ".tar.gz" 这样的多级扩展名也可以使用；黑名单优先
+  public checkName(filename: string): UploadRejection | null {
+    const lower = filename.toLowerCase();
+    const matches = (extensions: string[]) => extensions.some(ext => lower.endsWith(normalizeExtension(ext)));
+
+    if (matches(this.config.deniedExtensions)
+      || (this.config.allowedExtensions.length > 0 && !matches(this.config.allowedExtensions))) {
+      return { error: 'extension_not_allowed', message: `File extension is not allowed: ${filename}` };
+    }
+    return null;
+  }
+
+  public checkSize(size: number): UploadRejection | null {
+    if (size > this.config.maxFileSize) {
+      return {
+        error: 'file_too_large',
+        message: `File size ${size} bytes exceeds the limit of ${this.config.maxFileSize} bytes`
+      };
+    }
+
+    return this.checkQuota(size);
+  }
+
+  public checkQuota(size: number): UploadRejection | null {
+    if (this.config.quota !== null) {
+      const used = this.usedBytes();
+      if (used + size > this.config.quota) {
+        return {
+          error: 'quota_exceeded',
+          message: `Upload quota exceeded: ${used} of ${this.config.quota} bytes used, file needs ${size} bytes`
+        };
+      }
+    }
+    return null;
+  }
+
+  // mimeType 应按文件头识别，不信任文件名和客户端声明的 Content-Type
+  public checkMimeType(mimeType: string, filename: string): UploadRejection | null {
+    const { allowedMimeTypes, deniedMimeTypes } = this.config;
+    if (matchesMimeType(mimeType, deniedMimeTypes)
+      || (allowedMimeTypes.length > 0 && !matchesMimeType(mimeType, allowedMimeTypes))) {
+      return { error: 'mime_type_not_allowed', message: `File type ${mimeType} is not allowed: ${filename}` };
+    }
+    return null;
+  }
+
+  // 上传目录中已占用的字节数（包括 .gz 副本和历史版本，不包括 .tus 等内部目录）
+  public usedBytes(dir: string = this.uploadDir): number {
+    let total = 0;
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      if (entry.name.startsWith('.') && entry.name !== VERSIONS_DIR) continue;
+
+      const entryPath = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        total += this.usedBytes(entryPath);
+      } else if (entry.isFile()) {
+        try {
+          total += statSync(entryPath).size;
+        } catch {
+          // 统计期间被删除的文件
+        }
+      }
+    }
+    return total;
+  }
+}
@@ -0,0 +1,15 @@
+import { ServerResponse } from 'http';
+
+// 追加 Vary 字段而不覆盖已有的值（如 CORS 设置的 Origin）
+export function appendVary(res: ServerResponse, field: string): void {
+  const current = res.getHeader('Vary');
+  const fields = current === undefined
+    ? []
+    : String(current).split(',').map(value => value.trim()).filter(Boolean);
+
+  if (fields.includes('*') || fields.some(value => value.toLowerCase() === field.toLowerCase())) {
+    return;
+  }
+
+  res.setHeader('Vary', [...fields, field].join(', '));
+}
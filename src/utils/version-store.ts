@@ -0,0 +1,99 @@
+import crypto from 'crypto';
+import { existsSync, mkdirSync, renameSync, rmSync, statSync } from 'fs';
+import { dirname, join } from 'path';
+import { VersionRecord } from './upload-index';
+
+// 历史版本保存在 <uploadDir>/.versions/<文件路径>/<版本 ID>
+export const VERSIONS_DIR = '.versions';
+
+// 版本 ID：归档时间 + 随机后缀，按字符串排序即按时间排序
+const VERSION_ID_PATTERN = /^\d{8}T\d{9}Z-[0-9a-f]{6}$/;
+
+export interface PruneOptions {
+  // 保留最新的 keep 个版本，null 表示不限制
+  keep: number | null;
+  // 删除归档时间早于 maxAge 毫秒之前的版本，null 表示不限制
+  maxAge: number | null;
+}
+
+export function isVersionId(value: string): boolean {
+  return VERSION_ID_PATTERN.test(value);
+}
+
+function createVersionId(date: Date): string {
+  return `${date.toISOString().replace(/[-:.]/g, '')}-${crypto.randomBytes(3).toString('hex')}`;
+}
+
+export class VersionStore {
+  private root: string;
+
+  constructor(uploadDir: string) {
+    this.root = join(uploadDir, VERSIONS_DIR);
+  }
+
+  private fileDir(filename: string): string {
+    return join(this.root, ...filename.split('/'));
+  }
+
+  public path(filename: string, id: string): string {
+    return join(this.fileDir(filename), id);
+  }
+
+  public exists(filename: string, id: string): boolean {
+    return isVersionId(id) && existsSync(this.path(filename, id));
+  }
+
+  // 将当前文件移动到版本目录，返回新版本的记录
+  public archive(filePath: string, filename: string, current: Omit<VersionRecord, 'id' | 'archivedAt'>): VersionRecord {
+    const archivedAt = new Date();
+    const id = createVersionId(archivedAt);
+    const versionPath = this.path(filename, id);
+
+    mkdirSync(dirname(versionPath), { recursive: true });
+    renameSync(filePath, versionPath);
+
+    return {
+      ...current,
+      id,
+      size: statSync(versionPath).size,
+      archivedAt: archivedAt.toISOString()
+    };
+  }
+
+  public remove(filename: string, id: string): void {
+    rmSync(this.path(filename, id), { force: true });
+  }
+
+  public removeAll(filename: string): void {
+    rmSync(this.fileDir(filename), { recursive: true, force: true });
+  }
+
+  // 文件重命名或移动时，历史版本随之移动
+  public move(from: string, to: string): void {
+    this.removeAll(to);
+    if (existsSync(this.fileDir(from))) {
+      mkdirSync(dirname(this.fileDir(to)), { recursive: true });
+      renameSync(this.fileDir(from), this.fileDir(to));
+    }
+  }
+
+  // 按数量和时间清理历史版本（versions 按从新到旧排列），返回保留和删除的版本
+  public prune(filename: string, versions: VersionRecord[], options: PruneOptions): { kept: VersionRecord[]; removed: VersionRecord[] } {
+    const cutoff = options.maxAge !== null ? Date.now() - options.maxAge : null;
+    const kept: VersionRecord[] = [];
+    const removed: VersionRecord[] = [];
+
+    versions.forEach((version, index) => {
+      const tooMany = options.keep !== null && index >= options.keep;
+      const tooOld = cutoff !== null && Date.parse(version.archivedAt) < cutoff;
+      if (tooMany || tooOld) {
+        this.remove(filename, version.id);
+        removed.push(version);
+      } else {
+        kept.push(version);
+      }
+    });
+
+    return { kept, removed };
+  }
+}
@@ -57,7 +57,7 @@ export class FileWatcher extends EventEmitter {
       })
       .on('unlinkDir', (path) => {
         this.logger.debug(`Directory removed: ${path}`);
-        this.emit('change', path);
+        this.emit('unlinkDir', path);
       })
       .on('error', (error) => {
         this.logger.error('File watcher error:', error);